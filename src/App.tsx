@@ -10,21 +10,31 @@ export default function App() {
   // Derive initial view/roomCode from URL params
   const [view, setView] = useState<View>(() => {
     const params = new URLSearchParams(window.location.search);
+    if (params.get('host') || params.get('preset')) return 'host';
     if (params.get('spectate')) return 'spectator';
     if (params.get('room')) return 'controller';
     return 'home';
   });
   const [roomCode, setRoomCode] = useState<string>(() => {
     const params = new URLSearchParams(window.location.search);
-    return params.get('spectate') || params.get('room') || '';
+    return params.get('host') || params.get('spectate') || params.get('room') || '';
   });
+  // Rule preset to open a new room with (?preset=lagos-classic or a saved code)
+  const [presetCode, setPresetCode] = useState<string>(() => new URLSearchParams(window.location.search).get('preset') || '');
 
   const handleHostGame = () => {
     // Host generates their own code
     localStorage.removeItem('whot-room-code'); // Clear any old session
+    setRoomCode('');
     setView('host');
   };
 
+  // Keep the host's room in the URL so a reload returns to the same lobby
+  const handleRoomCreated = (code: string) => {
+    setRoomCode(code);
+    window.history.replaceState({}, '', presetCode ? `?host=${code}&preset=${encodeURIComponent(presetCode)}` : `?host=${code}`);
+  };
+
   const handleJoinGame = (code: string) => {
     setRoomCode(code);
     setView('controller');
@@ -40,6 +50,7 @@ export default function App() {
   const handleBack = () => {
     setView('home');
     setRoomCode('');
+    setPresetCode('');
     window.history.replaceState({}, '', window.location.pathname);
   };
 
@@ -62,7 +73,7 @@ export default function App() {
           <Home onHostGame={handleHostGame} onJoinGame={handleJoinGame} onWatchGame={handleWatchGame} />
         )}
         {view === 'host' && (
-          <HostView onExit={handleBack} />
+          <HostView onExit={handleBack} initialRoomCode={roomCode || undefined} initialPreset={presetCode || undefined} onRoomCreated={handleRoomCreated} />
         )}
         {view === 'controller' && (
           <ControllerView roomCode={roomCode} onBack={handleBack} />
@@ -1,15 +1,16 @@
 // Controller View Component - Refactored with shared hooks and components
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { canDefendAgainstPick, canPlayCard } from '../../utils/whot-rules';
+import { getPlayableCards, playRejection } from '../../utils/whot-rules';
 import { useGameConnection } from '../../utils/useGameConnection';
 import { useAutoPlay } from '../../hooks/useAutoPlay';
 import { useGameAnnouncer } from '../../hooks/useGameAnnouncer';
 import { ChatPanel, ChatMessage } from '../chat';
-import { Card, CardShape, GameMessage } from '../../types/game';
+import { Card, CardShape, GameMessage, DEFAULT_RULES } from '../../types/game';
 import { WhotCard } from '../card';
 import { ArrowLeft, RefreshCw, Send, AlertTriangle, Circle, Square, Triangle, Star, X, MessageCircle, Volume2, VolumeX, Info } from 'lucide-react';
 import { WinnerOverlay } from './winner-overlay';
 import { STATUS_COLORS } from '../../utils/theme-constants';
+import { formatTurnTimeLimit, formatReverseCard, formatLastCardPenalty } from '../../utils/game-helpers';
 
 interface ControllerViewProps { roomCode: string; onBack: () => void; }
 
@@ -27,7 +28,9 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
   const [chatInput, setChatInput] = useState('');
   const [showRulesInfo, setShowRulesInfo] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [handSyncKey, setHandSyncKey] = useState(0);
   const processedMessagesRef = useRef<Set<string>>(new Set());
+  const [isJoined, setIsJoined] = useState(false);
 
   const handleMessage = useCallback((msg: GameMessage) => {
     if (msg.type !== 'chat_message') {
@@ -38,16 +41,11 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
         processedMessagesRef.current = new Set(Array.from(processedMessagesRef.current).slice(-50));
       }
     }
-    const cards = msg.cards;
-    if (msg.type === 'deal' && msg.playerId === playerId && cards) { setHand(cards); setMessage('Game Started! Good Luck!'); }
-    if (msg.type === 'draw' && msg.playerId === playerId && cards) { 
-      // Deduplicate to prevent stale state issues after auto-play
-      setHand(prev => {
-        const existingIds = new Set(prev.map(c => c.id));
-        const newCards = cards.filter(c => !existingIds.has(c.id));
-        return [...prev, ...newCards];
-      }); 
-    }
+    // Cards never travel on the shared channel: refetch the hand when ours changed
+    if (msg.type === 'deal') { setHandSyncKey(prev => prev + 1); setMessage('Game Started! Good Luck!'); }
+    if (msg.type === 'draw' && msg.playerId === playerId) { setHandSyncKey(prev => prev + 1); }
+    if (msg.type === 'last_card_challenged' && msg.caught && msg.targetId === playerId) { setHandSyncKey(prev => prev + 1); setMessage('Caught! You forgot to call Last Card.'); }
+    if (msg.type === 'last_card_challenged' && !msg.caught && msg.playerId === playerId) { setHandSyncKey(prev => prev + 1); }
     if (msg.type === 'card_played' && msg.playerId === playerId && msg.card) { setHand(prev => prev.filter(c => c.id !== msg.card!.id)); }
     if (msg.type === 'chat_message' && msg.playerName && msg.message) {
       // Skip own messages (already added optimistically)
@@ -58,10 +56,9 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
     }
   }, [playerId]);
 
-  const { gameState, isConnected, error, joinGame, playCard: playCardOnServer, drawCard: drawCardOnServer, getHand, setReady, fetchGameState, sendMessage, triggerAutoPlay } = useGameConnection(roomCode, handleMessage);
+  const { gameState, lobby, isConnected, error, joinGame, leaveRoom, playCard: playCardOnServer, drawCard: drawCardOnServer, declareLastCard: declareLastCardOnServer, challengeLastCard: challengeLastCardOnServer, getHand, setReady, fetchGameState, sendMessage, checkTurnDeadline } = useGameConnection(roomCode, handleMessage, isJoined ? playerId : undefined);
 
   const [playerName, setPlayerName] = useState('');
-  const [isJoined, setIsJoined] = useState(false);
   const [hand, setHand] = useState<Card[]>([]);
   const handRef = useRef<Card[]>([]);
   const [isMuted, setIsMuted] = useState(false);
@@ -76,17 +73,22 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
   const isMyTurn = effectiveCurrentPlayerId === playerId;
   const winner = gameState?.winner;
   const iWon = winner === playerId;
-
-  // Validate turn is still ours before auto-play (prevents stale state issues)
-  const validateTurn = useCallback(() => {
-    const currentPlayer = gameState?.players?.[gameState?.currentPlayerIndex]?.id;
-    return currentPlayer === playerId;
-  }, [gameState?.players, gameState?.currentPlayerIndex, playerId]);
+  const lastCardPenalty = gameState?.rules?.lastCardPenalty ?? 0;
+  // Last card house rule: call it while holding two, or be challenged once down to one
+  const canCallLastCard = lastCardPenalty > 0 && hand.length === 2 && !winner;
+  const lastCardCalled = gameState?.lastCardCalled === playerId;
+  // Set when we tap "Last Card!"; the next play repeats the call, in case it overtakes the call request
+  const lastCardTapped = useRef(false);
+  // Nobody is told who forgot to call it, so any opponent on one card can be challenged (a wrong call costs us)
+  const challengeable = lastCardPenalty > 0 && !winner && hand.length > 0
+    ? (gameState?.players ?? []).filter(p => p.id !== playerId && p.cardCount === 1).map(p => p.id)
+    : [];
+  // Cards the server would take right now; the rest are greyed out on our turn
+  const playableIds = new Set(isMyTurn && gameState ? getPlayableCards(hand, gameState, playerId).map(c => c.id) : []);
 
   const { showCountdown, isCritical, secondsLeft } = useAutoPlay({
-    isMyTurn, gameStarted: !!gameState?.gameStarted, hasWinner: !!winner,
-    turnStartTime: gameState?.turnStartTime, roomCode, playerId, onAutoPlay: triggerAutoPlay,
-    validateTurn
+    gameStarted: !!gameState?.gameStarted, hasWinner: !!winner,
+    turnStartTime: gameState?.turnStartTime, turnTimeLimit: gameState?.rules?.turnTimeLimit, roomCode, onDeadline: checkTurnDeadline
   });
 
   const announcer = useGameAnnouncer({ gameState, isMuted });
@@ -103,8 +105,12 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
 
   useEffect(() => { if (gameState?.gameStarted && isJoined && hand.length === 0) fetchHand(); }, [gameState?.gameStarted, isJoined, hand.length, fetchHand]);
 
+  useEffect(() => { if (handSyncKey > 0) fetchHand(); }, [handSyncKey, fetchHand]);
+
   useEffect(() => {
     handRef.current = hand;
+    // A call only counts for the two cards it was made on
+    if (hand.length > 2) lastCardTapped.current = false;
   }, [hand]);
 
   useEffect(() => {
@@ -114,8 +120,19 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
     }
   }, [gameState, isJoined, playerId]);
 
+  // Not dealt into the game in progress: knocked out of the match, or forfeited by the
+  // server after being offline too long
+  const isSittingOut = isJoined && !!gameState?.gameStarted && !gameState.winner && !gameState.players.some(p => p.id === playerId);
+  const isKnockedOut = !!gameState?.match?.eliminated.includes(playerId);
   useEffect(() => {
-    if (gameState?.lastAction) {
+    if (!isSittingOut) return;
+    setMessage(isKnockedOut
+      ? "You're out of this match. Watch the table - the next match is yours!"
+      : 'You were out of the game too long and lost your seat. Join the next one!');
+  }, [isSittingOut, isKnockedOut]);
+
+  useEffect(() => {
+    if (gameState?.lastAction && !isSittingOut) {
       let msg = gameState.lastAction;
       if (playerName && msg.includes(playerName)) {
         msg = msg.replace(new RegExp(`Warning, ${playerName} has two cards left!`, 'i'), '').replace(new RegExp(`\\. ${playerName} is on last card!`, 'i'), '').trim();
@@ -123,7 +140,7 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
       }
       setMessage(msg);
     }
-  }, [gameState?.lastAction, playerName]);
+  }, [gameState?.lastAction, playerName, isSittingOut]);
 
   const handleJoinGame = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -134,13 +151,26 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
     finally { setLoading(false); }
   };
 
+  // Kicked by the host: back to the join screen (the server refuses a rejoin)
+  useEffect(() => {
+    if (isJoined && lobby?.kickedIds.includes(playerId)) {
+      setIsJoined(false);
+      setMessage('The host removed you from this room.');
+    }
+  }, [isJoined, lobby, playerId]);
+
+  // Free the lobby seat when leaving before the game starts
+  const handleBack = () => {
+    if (isJoined && !gameState?.gameStarted) {
+      leaveRoom(roomCode, playerId).catch((e: unknown) => console.error("Failed to leave room", e));
+    }
+    onBack();
+  };
+
   const handlePlayCard = async (card: Card, shape: CardShape | null = null) => {
     if (!isMyTurn) { setMessage('Not your turn.'); return; }
-    if (gameState?.effectActive === 'general_market') { setMessage("General Market! You must PICK a card."); navigator.vibrate?.(200); return; }
-    if (gameState?.currentCard) {
-      const isValid = (gameState.effectActive === 'pick_two' || gameState.effectActive === 'pick_three') ? canDefendAgainstPick(card, gameState) : canPlayCard(card, gameState.currentCard, gameState.selectedShape);
-      if (!isValid) { setMessage("Invalid Move! Check shape/number."); navigator.vibrate?.(200); return; }
-    }
+    const rejection = gameState ? playRejection(card, gameState, playerId) : null;
+    if (rejection) { setMessage(rejection); navigator.vibrate?.(200); return; }
     if (card.number === 20 && !shape) { setPendingCard(card); setShowShapePicker(true); return; }
 
     // Warm up TTS for the likely announcement so it feels instant when the broadcast arrives.
@@ -160,8 +190,13 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
 
     setLoading(true);
     const previousHand = handRef.current;
+    const declareLastCard = lastCardTapped.current && previousHand.length === 2;
     setHand(previousHand.filter(c => c.id !== card.id));
-    try { await playCardOnServer(roomCode, playerId, card, shape); setPendingCard(null); setShowShapePicker(false); setMessage("Card played!"); }
+    try {
+      await playCardOnServer(roomCode, playerId, card, shape, declareLastCard);
+      lastCardTapped.current = false;
+      setPendingCard(null); setShowShapePicker(false); setMessage("Card played!");
+    }
     catch (err: unknown) {
       setHand(previousHand);
       setMessage(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -169,6 +204,27 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
     finally { setLoading(false); }
   };
 
+  const handleDeclareLastCard = async () => {
+    lastCardTapped.current = true;
+    try {
+      await declareLastCardOnServer(roomCode, playerId);
+      setMessage('Last card called!');
+    }
+    catch (err: unknown) {
+      setMessage(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleChallenge = async (targetId: string) => {
+    try {
+      const { caught } = await challengeLastCardOnServer(roomCode, playerId, targetId);
+      setMessage(caught ? 'Caught them!' : `They called it! You pick ${lastCardPenalty}.`);
+    }
+    catch (err: unknown) {
+      setMessage(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
   const handleDraw = async () => {
     if (!isMyTurn) { setMessage('Not your turn.'); return; }
     setMessage("Drawing cards...");
@@ -234,6 +290,8 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
               {loading ? <RefreshCw className="animate-spin"/> : <Send className="w-5 h-5" />} Join Table
             </button>
           </form>
+          {/* Join problems from the server: name taken, room full, removed by host */}
+          <p className="mt-4 text-center text-white/70 text-sm font-medium">{message}</p>
           {error && <div className="mt-4 bg-red-900/40 border border-red-500/50 rounded-xl p-4 text-sm flex items-start gap-3 backdrop-blur-sm"><AlertTriangle className="w-5 h-5 text-red-400 shrink-0"/><p className="text-red-200 font-medium">{error}</p></div>}
         </div>
       </div>
@@ -245,11 +303,11 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
   return (
     <div className="fixed inset-0 flex flex-col font-sans" style={{ background: 'var(--whot-table-gradient)' }}>
       <div className="absolute inset-0 pointer-events-none opacity-40 mix-blend-overlay" style={{ backgroundImage: 'var(--whot-wood-texture)' }} />
-      {winner && <WinnerOverlay winnerName={gameState.players.find(p => p.id === winner)?.name} isMe={iWon} players={gameState.players} isHost={false} myPlayerId={playerId} onPlayAgain={() => setReady(roomCode, playerId)} />}
+      {winner && <WinnerOverlay winnerName={gameState.players.find(p => p.id === winner)?.name} isMe={iWon} players={gameState.players} isHost={false} myPlayerId={playerId} onPlayAgain={() => setReady(roomCode, playerId)} match={gameState.match} roundResult={gameState.roundResult} />}
 
       {!winner && (
         <div className="relative z-20 flex items-center justify-between p-4 bg-black/40 backdrop-blur-md border-b border-white/5">
-          <button onClick={onBack} className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-all text-white border border-white/10"><ArrowLeft className="w-5 h-5" /></button>
+          <button onClick={handleBack} className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-all text-white border border-white/10"><ArrowLeft className="w-5 h-5" /></button>
           <div className="flex flex-col items-center">
             <div className="text-white text-base font-bold uppercase tracking-widest">{playerName}</div>
             {isMyTurn && <div className="text-sm font-black bg-yellow-400 text-black px-4 py-1 rounded-full animate-pulse shadow-lg mt-1 tracking-wider border-2 border-yellow-200">YOUR TURN</div>}
@@ -329,7 +387,7 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
                 </div>
                 {hand.map((card) => (
                   <div key={card.id} className="flex-shrink-0 snap-center perspective-1000">
-                    <WhotCard card={card} onClick={() => handlePlayCard(card)} disabled={!isMyTurn || loading} className={`transform transition-all duration-500 ${isMyTurn ? 'hover:scale-110 hover:-translate-y-6 hover:rotate-2 shadow-2xl cursor-pointer' : ''}`}/>
+                    <WhotCard card={card} onClick={() => handlePlayCard(card)} disabled={!isMyTurn || loading || !playableIds.has(card.id)} className={`transform transition-all duration-500 ${isMyTurn ? 'hover:scale-110 hover:-translate-y-6 hover:rotate-2 shadow-2xl cursor-pointer' : ''}`}/>
                   </div>
                 ))}
               </div>
@@ -364,6 +422,28 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
       {!winner && (
         <div className="relative z-20 px-4 py-3 bg-black/40 backdrop-blur-md border-t border-white/5 pb-[calc(0.75rem+env(safe-area-inset-bottom))]">
           <p className="text-white/40 text-xs font-mono tracking-widest uppercase text-center mb-3">{hand.length} Cards held</p>
+          {canCallLastCard && (
+            <button
+              onClick={handleDeclareLastCard}
+              disabled={lastCardCalled}
+              className={`block w-full max-w-2xl mx-auto mb-3 py-3 rounded-full font-black uppercase tracking-wider transition-all ${lastCardCalled ? 'bg-green-500 text-black' : 'bg-red-600 text-white animate-pulse'}`}
+            >
+              {lastCardCalled ? 'Last card called ✓' : 'Last Card!'}
+            </button>
+          )}
+          {challengeable.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 max-w-2xl mx-auto mb-3">
+              {challengeable.map(id => (
+                <button
+                  key={id}
+                  onClick={() => handleChallenge(id)}
+                  className="px-4 py-2 rounded-full bg-orange-500 text-black font-black uppercase tracking-wider text-sm"
+                >
+                  Challenge {gameState?.players.find(p => p.id === id)?.name ?? 'Player'}?
+                </button>
+              ))}
+            </div>
+          )}
           
           {/* Inline Chat Input - Always visible */}
           <div className="flex items-center gap-2 max-w-2xl mx-auto">
@@ -435,12 +515,37 @@ export function ControllerView({ roomCode, onBack }: ControllerViewProps) {
                 { label: 'Pick Three (Card 5)', value: gameState?.rules?.pickThree },
                 { label: 'Defend/Stack', value: gameState?.rules?.defendPick },
                 { label: 'Win with Hold On', value: gameState?.rules?.winWithHoldOn },
+                { label: 'Star 8 Skips Two', value: gameState?.rules?.starEightSkipsTwo },
+                { label: 'Whot Blocks Picks', value: gameState?.rules?.whotBlocksPick },
+                { label: 'Cross-Stack 2 & 5', value: gameState?.rules?.crossStack },
               ].map(rule => (
                 <div key={rule.label} className="flex items-center justify-between p-3 rounded-lg" style={{ backgroundColor: rule.value ? `${STATUS_COLORS.success}33` : `${STATUS_COLORS.error}33`, borderWidth: '1px', borderStyle: 'solid', borderColor: rule.value ? `${STATUS_COLORS.success}4D` : `${STATUS_COLORS.error}4D` }}>
                   <span className="text-white font-medium">{rule.label}</span>
                   <span className="text-sm font-bold" style={{ color: rule.value ? STATUS_COLORS.success : STATUS_COLORS.error }}>{rule.value ? 'ON' : 'OFF'}</span>
                 </div>
               ))}
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Turn Timer</span>
+                <span className="text-sm font-bold text-yellow-400">{formatTurnTimeLimit(gameState?.rules?.turnTimeLimit ?? DEFAULT_RULES.turnTimeLimit)}</span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Reverse Card</span>
+                <span className="text-sm font-bold text-yellow-400">{formatReverseCard(gameState?.rules?.reverseCard ?? DEFAULT_RULES.reverseCard)}</span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Call Last Card</span>
+                <span className="text-sm font-bold text-yellow-400">{formatLastCardPenalty(gameState?.rules?.lastCardPenalty ?? DEFAULT_RULES.lastCardPenalty)}</span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Hand Size</span>
+                <span className="text-sm font-bold text-yellow-400">{gameState?.rules?.handSize ?? DEFAULT_RULES.handSize} cards</span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Match</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {gameState?.match ? `${gameState.match.scores[playerId] ?? 0} / ${gameState.match.target} pts` : 'Single game'}
+                </span>
+              </div>
             </div>
             {gameState?.rulesLocked && <p className="mt-4 text-white/40 text-xs text-center">🔒 Rules are locked for this game</p>}
             <button onClick={() => setShowRulesInfo(false)} className="w-full mt-4 py-3 bg-yellow-400 hover:bg-yellow-300 text-black font-bold rounded-xl transition-all">Got it</button>
@@ -1,43 +1,57 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { GameMessage, GameRules, DEFAULT_RULES } from '../../types/game';
-import { useGameConnection } from '../../utils/useGameConnection';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { GameMessage, GameRules, DEFAULT_RULES, ReplayFrame, RulePreset, BotLevel, MAX_PLAYERS, TURN_TIME_LIMITS, MATCH_TARGETS, REVERSE_CARDS, LAST_CARD_PENALTIES, HAND_SIZES, MAX_DEALT_CARDS } from '../../types/game';
+import { formatTurnTimeLimit, formatReverseCard, formatLastCardPenalty } from '../../utils/game-helpers';
+import { useGameConnection, hostTokenKey } from '../../utils/useGameConnection';
+import { BUILT_IN_PRESETS, findBuiltInPreset, presetRules, isPresetActive, presetShareUrl } from '../../utils/rule-presets';
 import { useGameAnnouncer } from '../../hooks/useGameAnnouncer';
+import { useAutoPlay } from '../../hooks/useAutoPlay';
 import { ChatPanel, ChatMessage } from '../chat';
 import { WhotCard } from '../card';
-import { QrCode, Copy, Crown, AlertCircle, X, Settings, Info } from 'lucide-react';
+import { QrCode, Copy, Crown, AlertCircle, X, Settings, Info, Bot, Wifi, WifiOff, ArrowRight } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { WinnerOverlay } from './winner-overlay';
+import { ReplayViewer } from './replay-viewer';
+import { MatchScoreboard } from './match-scoreboard';
+
+// One name per bot seat; the list doubles as the bot cap
+const BOT_NAMES = ['Baba Bot', 'Aunty Bot', 'Oga Bot', 'Mama Put Bot', 'Danfo Bot', 'Area Bot'];
+const BOT_LEVELS: BotLevel[] = ['easy', 'medium', 'hard'];
 
 interface HostViewProps {
   onExit: () => void;
-  initialRoomCode?: string;  // For spectators joining an existing room
+  initialRoomCode?: string;  // For spectators, or a host resuming their room after a reload
   isSpectator?: boolean;     // Hide controls when spectating
+  onRoomCreated?: (roomCode: string) => void;
+  initialPreset?: string;    // Rule preset code from the URL (?preset=...)
 }
 
-export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostViewProps) {
-  // Use provided room code (for spectator) or generate new one (for host)
-  const [localRoomCode] = useState(() => initialRoomCode || Math.floor(1000 + Math.random() * 9000).toString());
-  
-  // Local state for Lobby (before game starts)
-  const [localPlayers, setLocalPlayers] = useState<{id: string, name: string}[]>([]);
+export function HostView({ onExit, initialRoomCode, isSpectator = false, onRoomCreated, initialPreset }: HostViewProps) {
+  // Spectators watch the given room; a host resumes it only if this device holds its host token.
+  // Empty until the server has opened a new room.
+  const [localRoomCode, setLocalRoomCode] = useState(() =>
+    initialRoomCode && (isSpectator || localStorage.getItem(hostTokenKey(initialRoomCode))) ? initialRoomCode : ''
+  );
+  const isCreatingRoomRef = useRef(false);
 
   // Chat State
   const [showChat, setShowChat] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
 
-  // Rules Configuration State
-  const [rules, setRules] = useState<GameRules>({ ...DEFAULT_RULES });
+  // Rules Configuration State (a built-in preset from the URL applies straight away)
+  const [loadedPreset, setLoadedPreset] = useState<RulePreset | null>(() => (initialPreset && findBuiltInPreset(initialPreset)) || null);
+  const [rules, setRules] = useState<GameRules>(() => loadedPreset ? presetRules(loadedPreset) : { ...DEFAULT_RULES });
+  const [presetName, setPresetName] = useState('');
+  const [isSavingPreset, setIsSavingPreset] = useState(false);
   const [showRulesModal, setShowRulesModal] = useState(false);
   const [showRulesInfo, setShowRulesInfo] = useState(false);
 
-  // Handle incoming messages (Join requests)
+  // Replay of the finished game (null when not replaying)
+  const [replayFrames, setReplayFrames] = useState<ReplayFrame[] | null>(null);
+
+  const [message, setMessage] = useState('Waiting for players...');
+
+  // Handle incoming messages (lobby updates are tracked by useGameConnection)
   const handleMessage = useCallback((msg: GameMessage) => {
-      if (msg.type === 'join' && msg.playerName) {
-          setLocalPlayers(prev => {
-              if (prev.find(p => p.id === msg.playerId)) return prev;
-              return [...prev, { id: msg.playerId, name: msg.playerName! }];
-          });
-      }
       // Chat messages
       if (msg.type === 'toggle_chat') {
           setShowChat(prev => !prev); // Toggle instead of just opening
@@ -60,21 +74,125 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
 
   const { 
     gameState, 
+    lobby,
     isConnected, 
-    startGame: startGameOnServer
+    onlinePlayerIds,
+    createRoom,
+    fetchLobby,
+    fetchGameState,
+    kickPlayer,
+    addBot,
+    reportPresence,
+    checkTurnDeadline,
+    startGame: startGameOnServer,
+    fetchReplay,
+    savePreset,
+    fetchPreset
   } = useGameConnection(localRoomCode, handleMessage);
 
+  const applyPreset = (preset: RulePreset) => {
+    setRules(presetRules(preset));
+    setLoadedPreset(preset);
+  };
+
+  // A saved preset from the URL comes from the server (once: the connection's methods change identity every render)
+  const fetchedPresetRef = useRef(false);
+  useEffect(() => {
+    if (!initialPreset || isSpectator || fetchedPresetRef.current || findBuiltInPreset(initialPreset)) return;
+    fetchedPresetRef.current = true;
+    fetchPreset(initialPreset)
+      .then(preset => {
+        setRules(presetRules(preset));
+        setLoadedPreset(preset);
+        setMessage(`House rules loaded: ${preset.name}`);
+      })
+      .catch((err: unknown) => {
+        console.error("Preset load failed", err);
+        setMessage(`Could not load preset ${initialPreset}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+  }, [initialPreset, isSpectator, fetchPreset]);
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    setIsSavingPreset(true);
+    try {
+      const preset = await savePreset(presetName.trim(), rules);
+      setLoadedPreset(preset);
+      setPresetName('');
+    } catch (err: unknown) {
+      setMessage(`Could not save preset: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingPreset(false);
+    }
+  };
+
+  const copyPresetLink = (code: string) => {
+    navigator.clipboard.writeText(presetShareUrl(code));
+    setMessage('Preset link copied!');
+    setTimeout(() => setMessage(''), 2000);
+  };
+
+  // Open a room on the server (once, even under StrictMode's double effects)
+  useEffect(() => {
+    if (localRoomCode || isSpectator || isCreatingRoomRef.current) return;
+    isCreatingRoomRef.current = true;
+    createRoom()
+      .then(code => {
+        setLocalRoomCode(code);
+        onRoomCreated?.(code);
+      })
+      .catch((err: unknown) => {
+        console.error("Room create failed", err);
+        setMessage(`Could not open a room: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+  }, [localRoomCode, isSpectator, createRoom, onRoomCreated]);
+
+  // After a reload, pick the lobby and any game in progress back up from the server
+  // (once per connection: the connection's methods change identity every render)
+  const resumedRoomRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isConnected) resumedRoomRef.current = null;
+    if (!isConnected || !localRoomCode || resumedRoomRef.current === localRoomCode) return;
+    resumedRoomRef.current = localRoomCode;
+    fetchLobby(localRoomCode);
+    fetchGameState(localRoomCode);
+  }, [isConnected, localRoomCode, fetchLobby, fetchGameState]);
+
+  // The host table is the room's witness: tell the server whose phones dropped off, so it
+  // can play or forfeit their seats after the grace period
+  const onlineKey = onlinePlayerIds.join(',');
+  const isGameLive = !!gameState?.gameStarted && !gameState.winner;
+  const reportedPresenceRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (isSpectator || !isConnected || !localRoomCode || !isGameLive) return;
+    const reportKey = `${gameState?.gameId}|${onlineKey}`;
+    if (reportedPresenceRef.current === reportKey) return;
+    reportedPresenceRef.current = reportKey;
+    reportPresence(localRoomCode, onlineKey ? onlineKey.split(',') : []).catch((err: unknown) => {
+      console.error("Presence report failed", err);
+    });
+  }, [isSpectator, isConnected, localRoomCode, isGameLive, gameState?.gameId, onlineKey, reportPresence]);
+
+  // The table is always on, so it also nudges the server when a turn runs out
+  const { showCountdown, isCritical, secondsLeft } = useAutoPlay({
+    gameStarted: !!gameState?.gameStarted, hasWinner: !!gameState?.winner,
+    turnStartTime: gameState?.turnStartTime, turnTimeLimit: gameState?.rules?.turnTimeLimit, roomCode: localRoomCode, onDeadline: checkTurnDeadline
+  });
+
   // Use shared announcer hook (host always plays sounds)
   useGameAnnouncer({ gameState, isMuted: false });
 
-  const [message, setMessage] = useState('Waiting for players...');
   const [showQR, setShowQR] = useState(false);
   
-  // Game state derived - Merge local lobby players with server game players
-  const players = gameState?.players || localPlayers;
+  // Game state derived - server game players once dealt, the server lobby before that
+  const lobbyPlayers = useMemo(() => lobby?.players ?? [], [lobby]);
+  const players = gameState?.players || lobbyPlayers;
   const topCard = gameState?.currentCard;
   const winner = gameState?.winner;
 
+  // Replay only belongs to the game it was fetched for; a rematch hides it
+  const isReplaying = !!winner && !!replayFrames && replayFrames[0]?.state.gameId === gameState?.gameId;
+
   // Track if this is a rematch (game has been played before in this session)
   const hasPlayedBefore = useRef(false);
 
@@ -91,21 +209,24 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
     // Need at least 2 players and a winner (game ended)
     if (!winner || !gameState?.players || gameState.players.length < 2) return;
     
-    // Check if ALL players are ready
-    const allReady = gameState.players.every(p => p.isReady);
+    // Check if ALL players are ready (anyone knocked out of the match sits the next round out)
+    const match = gameState.match;
+    const allReady = gameState.players.every(p =>
+      p.isReady || p.isBot || (!!match && !match.winner && match.eliminated.includes(p.id))
+    );
     if (!allReady) return;
 
     // Auto-start the next game!
     console.log('All players ready - auto-starting rematch...');
-    startGameOnServer(localRoomCode, gameState.players, rules);
-  }, [winner, gameState?.players, localRoomCode, rules, startGameOnServer]);
+    startGameOnServer(localRoomCode, lobbyPlayers, rules);
+  }, [winner, gameState?.players, gameState?.match, lobbyPlayers, localRoomCode, rules, startGameOnServer]);
 
   const statusMessage = winner
     ? `WINNER! ${players.find(p => p.id === winner)?.name} has won the game!`
     : (gameState?.lastAction || message || 'Waiting for game to start...');
 
   const handleStartGame = async () => {
-    if (players.length < 2) return;
+    if (players.length < 2 || players.every(p => p.isBot)) return;
     try {
       setMessage('Dealer is shuffling...');
       await startGameOnServer(localRoomCode, players, rules);
@@ -116,6 +237,38 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
     }
   };
 
+  const usedBotNames = new Set(lobbyPlayers.filter(p => p.isBot).map(p => p.name));
+  const nextBotName = BOT_NAMES.find(name => !usedBotNames.has(name));
+  const isRoomFull = lobbyPlayers.length >= (lobby?.maxPlayers ?? MAX_PLAYERS);
+
+  const handleAddBot = async (botLevel: BotLevel) => {
+    if (!nextBotName || isRoomFull) return;
+    try {
+      await addBot(localRoomCode, nextBotName, botLevel);
+    } catch (err: unknown) {
+      setMessage(`Could not add bot: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleKick = async (playerId: string) => {
+    try {
+      await kickPlayer(localRoomCode, playerId);
+    } catch (err: unknown) {
+      setMessage(`Could not remove player: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleWatchReplay = async () => {
+    try {
+      const frames = await fetchReplay(localRoomCode);
+      if (frames.length > 0) setReplayFrames(frames);
+    } catch (err: unknown) {
+      console.error("Replay failed", err);
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      setMessage(`Replay unavailable: ${msg}`);
+    }
+  };
+
   const copyCode = () => {
     navigator.clipboard.writeText(localRoomCode);
     setMessage('Room code copied!');
@@ -124,15 +277,19 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
   
   // Helper to Position Players Radially
   const getPlayerPosition = (index: number, total: number) => {
-      // Logic: 0 is Bottom, increasing clockwise?
+      // Logic: 0 is Bottom, increasing clockwise (fractional indexes land between seats)
       const angle = (index * (360 / total)) + 90; 
       const radian = (angle * Math.PI) / 180;
       const radius = 35; // % of viewport
       const x = 50 + radius * Math.cos(radian);
       const y = 50 + radius * Math.sin(radian);
-      return { left: `${x}%`, top: `${y}%` };
+      return { left: `${x}%`, top: `${y}%`, angle };
   };
 
+  // Arrow halfway between the current player and whoever is next, pointing the way play goes
+  const isReversed = gameState?.direction === -1;
+  const turnArrowPos = getPlayerPosition((gameState?.currentPlayerIndex ?? 0) + (isReversed ? -0.5 : 0.5), Math.max(players.length, 1));
+
   return (
     <div className="relative min-h-screen overflow-hidden flex flex-col font-sans"
          style={{ 
@@ -227,31 +384,50 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
       <div className="flex-1 relative container mx-auto perspective-[1000px]">
           
           {/* Winner Overlay */}
-          {winner && (
+          {winner && !isReplaying && (
               <WinnerOverlay 
                   winnerName={players.find(p => p.id === winner)?.name}
                   isMe={false}
                   players={gameState!.players} // Safe assertion: winner implies gameState exists
                   isHost={true}
-                  onHostRestart={() => startGameOnServer(localRoomCode, gameState!.players)}
+                  onHostRestart={() => startGameOnServer(localRoomCode, lobbyPlayers, rules)}
+                  onWatchReplay={isSpectator ? undefined : handleWatchReplay}
+                  match={gameState!.match}
+                  roundResult={gameState!.roundResult}
               />
           )}
 
+          {isReplaying && (
+              <ReplayViewer frames={replayFrames!} onClose={() => setReplayFrames(null)} />
+          )}
+
           {/* Lobby View (Pre-game) */}
            {!gameState?.gameStarted && !winner && (
                <div className="absolute inset-0 flex flex-col items-center justify-center z-20 overflow-y-auto p-4">
                    <div className="bg-black/30 backdrop-blur-md p-6 md:p-12 rounded-3xl border border-white/10 shadow-2xl text-center max-w-2xl w-full my-auto">
                        <Crown className="w-12 h-12 md:w-16 md:h-16 text-yellow-400 mx-auto mb-4 md:mb-6" />
                        <h2 className="text-3xl md:text-4xl font-black text-white mb-2">Ready to Play?</h2>
-                       <p className="text-white/60 text-lg mb-6 md:mb-8">Waiting for players to join room {localRoomCode}</p>
+                       <p className="text-white/60 text-lg mb-6 md:mb-8">
+                           {localRoomCode ? `Waiting for players to join room ${localRoomCode}` : 'Opening a room...'}
+                       </p>
 
                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
                           {players.map(p => (
                               <div key={p.id} className="bg-white/10 px-6 py-4 rounded-xl flex items-center gap-3 animate-in fade-in slide-in-from-bottom-4">
                                   <div className="w-8 h-8 rounded-full bg-gradient-to-br from-yellow-400 to-orange-500 flex items-center justify-center text-black font-bold">
-                                      {p.name.charAt(0)}
+                                      {p.isBot ? <Bot className="w-5 h-5" /> : p.name.charAt(0)}
                                   </div>
                                   <span className="text-white font-bold text-lg">{p.name}</span>
+                                  {p.isBot ? (
+                                      <span className="text-white/50 text-xs font-bold uppercase tracking-widest">{p.botLevel}</span>
+                                  ) : (
+                                      <PresenceBadge isOnline={onlinePlayerIds.includes(p.id)} />
+                                  )}
+                                  {!isSpectator && (
+                                      <button onClick={() => handleKick(p.id)} className="ml-auto p-1 text-white/40 hover:text-white transition-colors" title={p.isBot ? 'Remove Bot' : 'Remove Player'}>
+                                          <X className="w-4 h-4" />
+                                      </button>
+                                  )}
                               </div>
                           ))}
                           {[...Array(Math.max(0, 2 - players.length))].map((_, i) => (
@@ -263,6 +439,23 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
 
                       {!isSpectator ? (
                         <>
+                          {/* Fill empty seats with computer players */}
+                          <div className="flex items-center gap-2 mb-3">
+                              <span className="text-white/60 text-sm font-bold uppercase tracking-widest flex items-center gap-1 shrink-0">
+                                  <Bot className="w-4 h-4" /> Add Bot
+                              </span>
+                              {BOT_LEVELS.map(level => (
+                                  <button
+                                      key={level}
+                                      onClick={() => handleAddBot(level)}
+                                      disabled={!nextBotName || isRoomFull}
+                                      className="flex-1 py-2 bg-white/10 hover:bg-white/20 text-white font-bold rounded-xl transition-all border border-white/20 capitalize disabled:opacity-50"
+                                  >
+                                      {level}
+                                  </button>
+                              ))}
+                          </div>
+
                           {/* Rules Configuration Button */}
                           <button
                               onClick={() => setShowRulesModal(true)}
@@ -274,7 +467,7 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
                           
                           <button
                               onClick={handleStartGame}
-                              disabled={players.length < 2 || !isConnected}
+                              disabled={players.length < 2 || players.every(p => p.isBot) || !isConnected}
                               className="w-full py-4 bg-yellow-400 text-black font-black text-xl rounded-xl hover:bg-yellow-300 disabled:opacity-50 disabled:grayscale transition-all shadow-lg hover:shadow-yellow-400/20"
                           >
                               START MATCH
@@ -292,6 +485,11 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
           {/* Active Game Layout */}
           {gameState?.gameStarted && !winner && (
             <>
+              {/* Running match scores */}
+              {gameState.match && (
+                  <MatchScoreboard match={gameState.match} className="absolute left-4 top-4 z-20 w-56 hidden md:block" />
+              )}
+
               {/* Players - Orbiting */}
               {players.map((player, idx) => {
                   const pos = getPlayerPosition(idx, players.length);
@@ -317,6 +515,11 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
                                        <Crown className="w-8 h-8 text-yellow-400 drop-shadow-md fill-current"/>
                                    </div>
                                )}
+                               {isCurrent && showCountdown && secondsLeft !== null && (
+                                   <div className={`absolute -left-3 -top-2 px-2 py-0.5 rounded-full bg-black/80 border border-white/20 text-sm font-black ${isCritical ? 'text-red-400 animate-pulse' : 'text-yellow-400'}`}>
+                                       {secondsLeft}s
+                                   </div>
+                               )}
                                <span className="text-3xl font-black text-white">{player.name.charAt(0).toUpperCase()}</span>
                                
                                {/* Session Wins Badge */}
@@ -328,15 +531,30 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
                            </div>
                            
                            {/* Name Label */}
-                           <div className="bg-black/60 backdrop-blur px-4 py-1 rounded-full border border-white/10 shadow-lg">
+                           <div className="bg-black/60 backdrop-blur px-4 py-1 rounded-full border border-white/10 shadow-lg flex items-center gap-2">
                                <span className={`text-sm font-bold uppercase tracking-wider ${isCurrent ? 'text-yellow-400' : 'text-white'}`}>
                                    {player.name}
                                </span>
+                               {!player.isBot && <PresenceBadge isOnline={onlinePlayerIds.includes(player.id)} />}
                            </div>
+                           {gameState.lastCardCalled === player.id && (
+                               <span className="mt-1 px-2 py-0.5 rounded-full bg-green-500 text-black text-[10px] font-black uppercase tracking-wider">Last card!</span>
+                           )}
                       </div>
                   );
               })}
 
+              {/* Direction of play */}
+              {players.length > 1 && (
+                  <div
+                    className={`absolute z-20 w-10 h-10 rounded-full flex items-center justify-center border-2 shadow-lg transition-all duration-500 ${isReversed ? 'bg-purple-600/80 border-purple-300' : 'bg-black/60 border-yellow-400/60'}`}
+                    style={{ left: turnArrowPos.left, top: turnArrowPos.top, transform: `translate(-50%, -50%) rotate(${turnArrowPos.angle + (isReversed ? -90 : 90)}deg)` }}
+                    title={isReversed ? 'Play is reversed' : 'Play goes clockwise'}
+                  >
+                      <ArrowRight className="w-6 h-6 text-yellow-400" />
+                  </div>
+              )}
+
               {/* Center Table: Playing Piles */}
               <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 flex items-center gap-12 z-10">
                   
@@ -402,7 +620,7 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
       {/* Rules Configuration Modal */}
       {showRulesModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={() => setShowRulesModal(false)}>
-          <div className="bg-gray-900 p-6 md:p-8 rounded-2xl shadow-2xl max-w-md w-full mx-4 border border-white/10" onClick={e => e.stopPropagation()}>
+          <div className="bg-gray-900 p-6 md:p-8 rounded-2xl shadow-2xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto border border-white/10" onClick={e => e.stopPropagation()}>
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-2xl font-black text-white flex items-center gap-2">
                 <Settings className="w-6 h-6 text-yellow-400" />
@@ -414,6 +632,50 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
             </div>
             
             <div className="space-y-4">
+              {/* Presets */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Presets</span>
+                <p className="text-white/50 text-sm mb-3">Start from a house-rule set, or save yours to share</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {BUILT_IN_PRESETS.map(preset => (
+                    <button
+                      key={preset.code}
+                      onClick={() => applyPreset(preset)}
+                      className={`py-2 px-1 rounded-lg text-sm font-bold transition-all ${isPresetActive(preset, rules) ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
+                </div>
+                {loadedPreset && !findBuiltInPreset(loadedPreset.code) && isPresetActive(loadedPreset, rules) && (
+                  <div className="mt-3 flex items-center justify-between gap-2 p-2 rounded-lg bg-yellow-400/10 border border-yellow-400/30">
+                    <span className="text-white text-sm truncate">
+                      {loadedPreset.name} <span className="font-mono font-bold text-yellow-400">{loadedPreset.code}</span>
+                    </span>
+                    <button onClick={() => copyPresetLink(loadedPreset.code)} className="flex items-center gap-1 text-yellow-400 text-xs font-bold uppercase tracking-widest hover:text-yellow-300">
+                      <Copy className="w-4 h-4" /> Link
+                    </button>
+                  </div>
+                )}
+                <div className="mt-3 flex gap-2">
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Name these rules..."
+                    maxLength={40}
+                    className="flex-1 min-w-0 px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-white text-sm placeholder:text-white/30 focus:outline-none focus:border-yellow-500/50"
+                  />
+                  <button
+                    onClick={handleSavePreset}
+                    disabled={!presetName.trim() || isSavingPreset}
+                    className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-bold rounded-lg transition-all disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
               {/* Pick Two */}
               <label className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 cursor-pointer hover:bg-white/10 transition-all">
                 <div>
@@ -469,6 +731,134 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
                   className="w-5 h-5 accent-yellow-400"
                 />
               </label>
+
+              {/* Star 8 Skips Two */}
+              <label className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 cursor-pointer hover:bg-white/10 transition-all">
+                <div>
+                  <span className="text-white font-bold">Star 8 Skips Two</span>
+                  <p className="text-white/50 text-sm">A star Suspension skips the next two players</p>
+                </div>
+                <input 
+                  type="checkbox" 
+                  checked={rules.starEightSkipsTwo} 
+                  onChange={(e) => setRules(prev => ({ ...prev, starEightSkipsTwo: e.target.checked }))}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+              </label>
+
+              {/* Whot Blocks Picks */}
+              <label className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 cursor-pointer hover:bg-white/10 transition-all">
+                <div>
+                  <span className="text-white font-bold">Whot Blocks Picks</span>
+                  <p className="text-white/50 text-sm">Play a Whot (20) to cancel a Pick Two/Three</p>
+                </div>
+                <input 
+                  type="checkbox" 
+                  checked={rules.whotBlocksPick} 
+                  onChange={(e) => setRules(prev => ({ ...prev, whotBlocksPick: e.target.checked }))}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+              </label>
+
+              {/* Cross-Stack 2 & 5 */}
+              <label className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 cursor-pointer hover:bg-white/10 transition-all">
+                <div>
+                  <span className="text-white font-bold">Cross-Stack 2 & 5</span>
+                  <p className="text-white/50 text-sm">With Defend Pick on, answer a 2 with a 5 and a 5 with a 2</p>
+                </div>
+                <input 
+                  type="checkbox" 
+                  checked={rules.crossStack} 
+                  onChange={(e) => setRules(prev => ({ ...prev, crossStack: e.target.checked }))}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+              </label>
+
+              {/* Call Last Card */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Call Last Card</span>
+                <p className="text-white/50 text-sm mb-3">Going down to one card without calling it costs a penalty pick</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {LAST_CARD_PENALTIES.map(penalty => (
+                    <button
+                      key={penalty}
+                      onClick={() => setRules(prev => ({ ...prev, lastCardPenalty: penalty }))}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all ${rules.lastCardPenalty === penalty ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {formatLastCardPenalty(penalty)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Hand Size */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Hand Size</span>
+                <p className="text-white/50 text-sm mb-3">Cards dealt to each player (big tables can't take the biggest hands)</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {HAND_SIZES.map(size => (
+                    <button
+                      key={size}
+                      onClick={() => setRules(prev => ({ ...prev, handSize: size }))}
+                      disabled={players.length * size > MAX_DEALT_CARDS}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all disabled:opacity-30 ${rules.handSize === size ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {size}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Match */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Match</span>
+                <p className="text-white/50 text-sm mb-3">Losers add up their cards each round; reach the target and you're out</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {MATCH_TARGETS.map(target => (
+                    <button
+                      key={target}
+                      onClick={() => setRules(prev => ({ ...prev, matchTarget: target }))}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all ${rules.matchTarget === target ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {target === 0 ? 'Single' : target}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Reverse Card */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Reverse Card</span>
+                <p className="text-white/50 text-sm mb-3">Playing this number turns play around the table</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {REVERSE_CARDS.map(cardNumber => (
+                    <button
+                      key={cardNumber}
+                      onClick={() => setRules(prev => ({ ...prev, reverseCard: cardNumber }))}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all ${rules.reverseCard === cardNumber ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {cardNumber === 0 ? 'Off' : cardNumber}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Turn Timer */}
+              <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <span className="text-white font-bold">Turn Timer</span>
+                <p className="text-white/50 text-sm mb-3">A turn not played in time is played automatically</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {TURN_TIME_LIMITS.map(limit => (
+                    <button
+                      key={limit}
+                      onClick={() => setRules(prev => ({ ...prev, turnTimeLimit: limit }))}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all ${rules.turnTimeLimit === limit ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                    >
+                      {formatTurnTimeLimit(limit)}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
             
             <div className="mt-6 flex gap-3">
@@ -539,6 +929,54 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
                   {gameState?.rules?.winWithHoldOn ? 'ON' : 'OFF'}
                 </span>
               </div>
+              <div className={`flex items-center justify-between p-3 rounded-lg ${gameState?.rules?.starEightSkipsTwo ? 'bg-green-500/20 border border-green-500/30' : 'bg-red-500/20 border border-red-500/30'}`}>
+                <span className="text-white font-medium">Star 8 Skips Two</span>
+                <span className={`text-sm font-bold ${gameState?.rules?.starEightSkipsTwo ? 'text-green-400' : 'text-red-400'}`}>
+                  {gameState?.rules?.starEightSkipsTwo ? 'ON' : 'OFF'}
+                </span>
+              </div>
+              <div className={`flex items-center justify-between p-3 rounded-lg ${gameState?.rules?.whotBlocksPick ? 'bg-green-500/20 border border-green-500/30' : 'bg-red-500/20 border border-red-500/30'}`}>
+                <span className="text-white font-medium">Whot Blocks Picks</span>
+                <span className={`text-sm font-bold ${gameState?.rules?.whotBlocksPick ? 'text-green-400' : 'text-red-400'}`}>
+                  {gameState?.rules?.whotBlocksPick ? 'ON' : 'OFF'}
+                </span>
+              </div>
+              <div className={`flex items-center justify-between p-3 rounded-lg ${gameState?.rules?.crossStack ? 'bg-green-500/20 border border-green-500/30' : 'bg-red-500/20 border border-red-500/30'}`}>
+                <span className="text-white font-medium">Cross-Stack 2 & 5</span>
+                <span className={`text-sm font-bold ${gameState?.rules?.crossStack ? 'text-green-400' : 'text-red-400'}`}>
+                  {gameState?.rules?.crossStack ? 'ON' : 'OFF'}
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Turn Timer</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {formatTurnTimeLimit(gameState?.rules?.turnTimeLimit ?? DEFAULT_RULES.turnTimeLimit)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Reverse Card</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {formatReverseCard(gameState?.rules?.reverseCard ?? DEFAULT_RULES.reverseCard)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Call Last Card</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {formatLastCardPenalty(gameState?.rules?.lastCardPenalty ?? DEFAULT_RULES.lastCardPenalty)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Hand Size</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {gameState?.rules?.handSize ?? DEFAULT_RULES.handSize} cards
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/10 border border-white/20">
+                <span className="text-white font-medium">Match</span>
+                <span className="text-sm font-bold text-yellow-400">
+                  {gameState?.match ? `Out at ${gameState.match.target}` : 'Single game'}
+                </span>
+              </div>
             </div>
             
             {gameState?.rulesLocked && (
@@ -552,3 +990,16 @@ export function HostView({ onExit, initialRoomCode, isSpectator = false }: HostV
     </div>
   );
 }
+
+// Whether a player's phone is connected to the room right now
+function PresenceBadge({ isOnline }: { isOnline: boolean }) {
+  return isOnline ? (
+    <span className="flex items-center gap-1 text-green-400 text-xs font-bold uppercase tracking-widest" title="Online">
+      <Wifi className="w-3 h-3" /> Online
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-red-400 text-xs font-bold uppercase tracking-widest" title="Offline">
+      <WifiOff className="w-3 h-3" /> Offline
+    </span>
+  );
+}
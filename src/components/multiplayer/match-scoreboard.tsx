@@ -0,0 +1,45 @@
+import { Crown, Skull } from 'lucide-react';
+import { MatchState } from '../../types/game';
+
+interface MatchScoreboardProps {
+  match: MatchState;
+  className?: string;
+}
+
+// Running penalty totals for a match, lowest first; knocked-out players sink to the bottom
+export function MatchScoreboard({ match, className = '' }: MatchScoreboardProps) {
+  const rows = Object.entries(match.scores)
+    .map(([id, score]) => ({ id, score, isOut: match.eliminated.includes(id) }))
+    .sort((a, b) => Number(a.isOut) - Number(b.isOut) || a.score - b.score);
+
+  return (
+    <div className={`bg-black/50 backdrop-blur-md rounded-2xl border border-white/10 p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-yellow-400 text-[10px] md:text-xs uppercase tracking-widest font-bold">
+          {match.winner ? 'Match Over' : `Round ${match.round}`}
+        </span>
+        <span className="text-white/50 text-[10px] md:text-xs uppercase tracking-widest font-bold">Out at {match.target}</span>
+      </div>
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div key={row.id} className={row.isOut ? 'opacity-40' : ''}>
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className={`font-bold truncate flex items-center gap-1 ${row.id === match.winner ? 'text-yellow-400' : 'text-white'} ${row.isOut ? 'line-through' : ''}`}>
+                {row.id === match.winner && <Crown className="w-4 h-4 fill-current" />}
+                {row.isOut && <Skull className="w-4 h-4" />}
+                {match.names[row.id] ?? 'Player'}
+              </span>
+              <span className="font-mono text-white/80">{row.score}</span>
+            </div>
+            <div className="h-1 mt-1 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${row.score >= match.target * 0.75 ? 'bg-red-500' : 'bg-yellow-400'}`}
+                style={{ width: `${Math.min(100, (row.score / match.target) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ReplayFrame } from '../../types/game';
+import { WhotCard } from '../card';
+import { ChevronLeft, ChevronRight, SkipBack, SkipForward, Play, Pause, X, Trophy, AlertTriangle } from 'lucide-react';
+
+interface ReplayViewerProps {
+  frames: ReplayFrame[];
+  onClose: () => void;
+}
+
+const AUTO_STEP_MS = 1500;
+
+export function ReplayViewer({ frames, onClose }: ReplayViewerProps) {
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const lastIndex = frames.length - 1;
+  const frame = frames[index];
+  const state = frame?.state;
+
+  const stepBy = useCallback((delta: number) => {
+    setIndex(prev => Math.min(lastIndex, Math.max(0, prev + delta)));
+  }, [lastIndex]);
+
+  // Auto-advance; stops on the final frame (the "Check Up" moment)
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (index >= lastIndex) {
+      const stopId = setTimeout(() => setIsPlaying(false), 0);
+      return () => clearTimeout(stopId);
+    }
+    const timeoutId = setTimeout(() => stepBy(1), AUTO_STEP_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isPlaying, index, lastIndex, stepBy]);
+
+  // TV remotes and keyboards: arrows step, space plays/pauses, escape closes
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') { setIsPlaying(false); stepBy(-1); }
+      else if (e.key === 'ArrowRight') { setIsPlaying(false); stepBy(1); }
+      else if (e.key === ' ') { e.preventDefault(); setIsPlaying(prev => !prev); }
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [stepBy, onClose]);
+
+  if (!frame || !state) return null;
+
+  const currentPlayerId = state.players[state.currentPlayerIndex]?.id;
+  const caption = frame.action.type === 'start' ? 'Cards dealt' : state.lastAction;
+
+  return (
+    <div className="absolute inset-0 z-[110] flex flex-col items-center justify-center p-4 font-sans bg-black/70 backdrop-blur-md">
+      <div className="w-full max-w-4xl flex items-center justify-between mb-6">
+        <div className="flex flex-col">
+          <span className="text-yellow-400 text-[10px] md:text-xs uppercase tracking-widest font-bold opacity-80">Replay</span>
+          <span className="text-white text-xl md:text-2xl font-black tracking-wide">Move {index} of {lastIndex}</span>
+        </div>
+        <button onClick={onClose} className="p-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-all" title="Close Replay">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Players */}
+      <div className="w-full max-w-4xl grid grid-cols-2 md:grid-cols-4 gap-3 mb-10">
+        {state.players.map(player => {
+          const isCurrent = player.id === currentPlayerId && !state.winner;
+          const isWinner = player.id === state.winner;
+          return (
+            <div key={player.id} className={`px-4 py-3 rounded-xl border flex items-center justify-between transition-all ${
+              isWinner ? 'bg-yellow-400/20 border-yellow-400/60' : isCurrent ? 'bg-white/15 border-yellow-400/40' : 'bg-white/5 border-white/10'
+            }`}>
+              <span className={`font-bold truncate ${isWinner || isCurrent ? 'text-yellow-400' : 'text-white'}`}>
+                {isWinner && <Trophy className="inline w-4 h-4 mr-1 -mt-1" />}
+                {player.name}
+              </span>
+              <span className="text-white/70 text-sm font-mono">{player.cardCount} cards</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Table */}
+      <div className="flex items-center gap-12 mb-10">
+        <div className="flex flex-col items-center gap-2">
+          <WhotCard card={{ id: 'deck', shape: 'circle', number: 20 }} faceDown />
+          <span className="text-white/70 text-xs font-bold uppercase tracking-widest">Market · {state.deckCount}</span>
+        </div>
+        <div className="flex flex-col items-center gap-2">
+          {state.currentCard && <WhotCard card={state.currentCard} className="scale-125 shadow-[0_20px_50px_rgba(0,0,0,0.5)]" />}
+          <span className="text-white/70 text-xs font-bold uppercase tracking-widest mt-4">
+            {state.currentCard?.number === 20 && state.selectedShape ? `I need ${state.selectedShape}` : 'Played'}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-black/60 backdrop-blur-md px-8 py-3 rounded-full border border-white/10 shadow-xl mb-8 min-h-[3rem] flex items-center">
+        <p className="text-white/90 font-medium tracking-wide text-center">{state.winner ? `CHECK UP! ${caption}` : caption}</p>
+      </div>
+
+      {!frame.verified && (
+        <div className="mb-4 flex items-center gap-2 text-red-300 text-sm">
+          <AlertTriangle className="w-4 h-4" /> This step does not match what was recorded during the game
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => { setIsPlaying(false); setIndex(0); }} disabled={index === 0} className="p-3 bg-white/10 hover:bg-white/20 rounded-xl text-white transition-all disabled:opacity-30" title="First Move">
+          <SkipBack className="w-6 h-6" />
+        </button>
+        <button onClick={() => { setIsPlaying(false); stepBy(-1); }} disabled={index === 0} className="p-3 bg-white/10 hover:bg-white/20 rounded-xl text-white transition-all disabled:opacity-30" title="Previous Move">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <button onClick={() => setIsPlaying(prev => !prev)} disabled={index >= lastIndex && !isPlaying} className="p-4 bg-yellow-400 hover:bg-yellow-300 rounded-xl text-black transition-all disabled:opacity-30" title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <Pause className="w-7 h-7" /> : <Play className="w-7 h-7" />}
+        </button>
+        <button onClick={() => { setIsPlaying(false); stepBy(1); }} disabled={index >= lastIndex} className="p-3 bg-white/10 hover:bg-white/20 rounded-xl text-white transition-all disabled:opacity-30" title="Next Move">
+          <ChevronRight className="w-6 h-6" />
+        </button>
+        <button onClick={() => { setIsPlaying(false); setIndex(lastIndex); }} disabled={index >= lastIndex} className="p-3 bg-white/10 hover:bg-white/20 rounded-xl text-white transition-all disabled:opacity-30" title="Last Move">
+          <SkipForward className="w-6 h-6" />
+        </button>
+      </div>
+    </div>
+  );
+}
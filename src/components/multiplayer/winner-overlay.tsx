@@ -1,5 +1,6 @@
-import { Trophy, Check, Loader2 } from 'lucide-react';
-import { Player } from '../../types/game';
+import { Trophy, Check, Loader2, History } from 'lucide-react';
+import { MatchState, Player, RoundResult } from '../../types/game';
+import { MatchScoreboard } from './match-scoreboard';
 
 interface WinnerOverlayProps {
   winnerName?: string;
@@ -9,14 +10,22 @@ interface WinnerOverlayProps {
   isHost: boolean;
   onHostRestart?: () => void;
   myPlayerId?: string;
+  onWatchReplay?: () => void; // Host only: step through the finished game
+  match?: MatchState; // Set when this round is part of a match
+  roundResult?: RoundResult; // How the round ended and each hand's count
 }
 
-export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost, onHostRestart, myPlayerId }: WinnerOverlayProps) {
+export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost, onHostRestart, myPlayerId, onWatchReplay, match, roundResult }: WinnerOverlayProps) {
   
+  // Players knocked out of a match sit out the next round, so nobody waits on them
+  const sitsOut = (playerId?: string) => !!match && !match.winner && !!playerId && match.eliminated.includes(playerId);
+
   // Readiness check
-  const allReady = players.length > 0 && players.every(p => p.isReady);
+  const allReady = players.length > 0 && players.every(p => p.isReady || p.isBot || sitsOut(p.id)); // Bots are always ready
   const myPlayer = players.find(p => p.id === myPlayerId);
   const amIReady = myPlayer?.isReady;
+  const amIOut = sitsOut(myPlayerId);
+  const matchWinnerName = match?.winner ? match.names[match.winner] : undefined;
 
   return (
     <div className="absolute inset-0 z-[100] flex flex-col items-center justify-center p-4 overflow-y-auto font-sans bg-black/20 backdrop-blur-sm">
@@ -35,10 +44,33 @@ export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost,
                 CHECK UP!
             </h2>
             <p className={`text-lg md:text-2xl font-bold ${isMe ? 'text-yellow-400' : 'text-white/60'}`}>
-                {isMe ? 'You won the game!' : `${winnerName} won!`}
+                {match?.winner
+                    ? (match.winner === myPlayerId ? 'You won the match!' : `${matchWinnerName} wins the match!`)
+                    : match
+                        ? (isMe ? `You won round ${match.round}!` : `${winnerName} won round ${match.round}!`)
+                        : (isMe ? 'You won the game!' : `${winnerName} won!`)}
             </p>
         </div>
 
+        {/* Market ran out: show the count that decided it, lowest first */}
+        {roundResult?.reason === 'check_up' && (
+            <div className="mb-6 p-4 bg-black/20 rounded-2xl border border-white/5">
+                <h3 className="text-white/40 text-[10px] md:text-xs font-bold uppercase tracking-[0.2em] mb-3">Market finished - the count</h3>
+                <div className="space-y-1">
+                    {[...players]
+                        .sort((a, b) => (roundResult.scores[a.id] ?? 0) - (roundResult.scores[b.id] ?? 0))
+                        .map(p => (
+                            <div key={p.id} className="flex items-center justify-between text-sm md:text-base">
+                                <span className={`font-bold ${p.name === winnerName ? 'text-yellow-400' : 'text-white'}`}>{p.name}</span>
+                                <span className="font-mono text-white/80">{roundResult.scores[p.id] ?? 0}</span>
+                            </div>
+                        ))}
+                </div>
+            </div>
+        )}
+
+        {match && <MatchScoreboard match={match} className="mb-6 text-left" />}
+
         {/* Players Readiness List */}
         <div className="mb-8 p-4 bg-black/20 rounded-2xl border border-white/5">
             <h3 className="text-white/40 text-[10px] md:text-xs font-bold uppercase tracking-[0.2em] mb-4">Waiting Room</h3>
@@ -53,7 +85,9 @@ export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost,
                         <span className={`text-sm md:text-base font-bold truncate ${p.id === winnerName ? 'text-yellow-400' : 'text-white'}`}>
                             {p.name}
                         </span>
-                        {p.isReady ? (
+                        {sitsOut(p.id) ? (
+                            <span className="text-white/30 text-[10px] md:text-xs font-black uppercase">Out</span>
+                        ) : p.isReady || p.isBot ? (
                             <span className="flex items-center gap-1 text-green-400 text-[10px] md:text-xs font-black uppercase bg-green-900/20 px-2 py-1 rounded">
                                 <Check className="w-3 h-3" /> Ready
                             </span>
@@ -67,6 +101,14 @@ export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost,
 
         {/* Actions */}
         <div className="flex gap-4 justify-center">
+            {isHost && onWatchReplay && (
+                <button
+                  onClick={onWatchReplay}
+                  className="px-6 py-4 bg-white/10 hover:bg-white/20 border-2 border-white/10 text-white text-lg font-black uppercase tracking-wider rounded-xl transition-all hover:scale-[1.02] flex items-center justify-center gap-2 shrink-0"
+                >
+                    <History className="w-5 h-5" /> Replay
+                </button>
+            )}
             {isHost ? (
                 <button 
                   onClick={onHostRestart}
@@ -74,19 +116,21 @@ export function WinnerOverlay({ winnerName, isMe, players, onPlayAgain, isHost,
                   className="w-full py-4 bg-yellow-400 hover:bg-yellow-300 text-black text-xl font-black rounded-xl shadow-lg transition-all hover:scale-[1.02] disabled:opacity-50 disabled:grayscale flex items-center justify-center gap-2"
                 >
                     {!allReady && <Loader2 className="w-5 h-5 animate-spin" />}
-                    {allReady ? 'START MATCH' : 'WAITING...'}
+                    {!allReady ? 'WAITING...' : match && !match.winner ? 'NEXT ROUND' : 'START MATCH'}
                 </button>
             ) : (
                 <button 
                     onClick={onPlayAgain}
-                    disabled={amIReady}
+                    disabled={amIReady || amIOut}
                     className={`w-full py-4 border-2 font-black uppercase tracking-wider rounded-xl transition-all flex items-center justify-center gap-2 text-lg
                         ${amIReady 
                             ? 'bg-green-500/10 border-green-500/50 text-green-400' 
                             : 'bg-white/10 hover:bg-white/20 border-white/10 text-white hover:scale-[1.02]'
                         }`}
                 >
-                    {amIReady ? (
+                    {amIOut ? (
+                        'Knocked out - watch the rest!'
+                    ) : amIReady ? (
                         <>
                           <Check className="w-5 h-5" /> Ready!
                         </>
@@ -1,2 +1,2 @@
-export { useAutoPlay, TURN_TIMEOUT_MS, COUNTDOWN_WARNING_MS } from './useAutoPlay';
+export { useAutoPlay, COUNTDOWN_WARNING_MS } from './useAutoPlay';
 export { useGameAnnouncer } from './useGameAnnouncer';
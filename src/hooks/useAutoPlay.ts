@@ -1,59 +1,46 @@
-import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
+import { useEffect, useRef, useState, useMemo } from 'react';
+import { DEFAULT_RULES } from '../types/game';
 
-export const TURN_TIMEOUT_MS = 60000; // 60 seconds
-export const COUNTDOWN_WARNING_MS = 10000; // Show countdown in last 10 seconds
+export const COUNTDOWN_WARNING_MS = 10000; // Show countdown in last 10 seconds (half the turn on short timers)
 
 interface UseAutoPlayOptions {
-  isMyTurn: boolean;
   gameStarted: boolean;
   hasWinner: boolean;
   turnStartTime?: number;
+  /** Seconds per turn from the game's rules; 0 turns the timer off */
+  turnTimeLimit?: number;
   roomCode: string;
-  playerId: string;
-  onAutoPlay: (roomCode: string, playerId: string) => Promise<void>;
-  /** Optional: Function to re-validate turn before triggering auto-play */
-  validateTurn?: () => boolean;
+  /** Asks the server to check the turn deadline; the server decides whether to auto-play */
+  onDeadline: (roomCode: string) => Promise<void>;
 }
 
+/**
+ * Turn countdown for whoever is up. The server owns the deadline and plays the
+ * expired turn itself; every screen watching the table (the host and all
+ * phones) just nudges it when the countdown hits zero, so a player who walked
+ * away can't stall the game.
+ */
 export function useAutoPlay({
-  isMyTurn,
   gameStarted,
   hasWinner,
   turnStartTime,
+  turnTimeLimit = DEFAULT_RULES.turnTimeLimit,
   roomCode,
-  playerId,
-  onAutoPlay,
-  validateTurn
+  onDeadline
 }: UseAutoPlayOptions) {
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const autoPlayTriggeredRef = useRef(false);
-  // Track the turnStartTime this timer was created for
-  const currentTurnStartRef = useRef<number | undefined>(undefined);
+  // Turn whose deadline was already reported (by its start time), so each turn is reported once
+  const reportedTurnRef = useRef<number | null>(null);
+  // Latest callback without restarting the timer when its identity changes
+  const onDeadlineRef = useRef(onDeadline);
+  useEffect(() => {
+    onDeadlineRef.current = onDeadline;
+  }, [onDeadline]);
 
   // Determine if timer should be active
-  const shouldRunTimer = isMyTurn && gameStarted && !hasWinner;
-
-  // Memoized auto-play handler with validation
-  const handleAutoPlay = useCallback(async () => {
-    // Re-validate that it's still our turn before calling server
-    if (validateTurn && !validateTurn()) {
-      console.log('[AutoPlay] Turn validation failed, skipping auto-play');
-      return;
-    }
-    
-    // Also check if turnStartTime changed (turn moved on)
-    if (currentTurnStartRef.current !== turnStartTime) {
-      console.log('[AutoPlay] Turn changed, skipping auto-play');
-      return;
-    }
-
-    try {
-      await onAutoPlay(roomCode, playerId);
-    } catch (err) {
-      console.error('[AutoPlay] Failed:', err);
-    }
-  }, [onAutoPlay, roomCode, playerId, validateTurn, turnStartTime]);
+  const shouldRunTimer = gameStarted && !hasWinner && turnTimeLimit > 0;
+  const turnTimeoutMs = turnTimeLimit * 1000;
 
   useEffect(() => {
     // Clear any existing timer
@@ -64,30 +51,23 @@ export function useAutoPlay({
 
     // Reset state when timer shouldn't run
     if (!shouldRunTimer) {
-      autoPlayTriggeredRef.current = false;
-      currentTurnStartRef.current = undefined;
       // Use setTimeout to avoid synchronous setState in effect
       const resetId = setTimeout(() => setTimeRemaining(null), 0);
       return () => clearTimeout(resetId);
     }
 
     const turnStart = turnStartTime || Date.now();
-    autoPlayTriggeredRef.current = false;
-    currentTurnStartRef.current = turnStart;
 
     const updateTimer = () => {
-      // Check if turn changed while timer was running
-      if (currentTurnStartRef.current !== turnStart) {
-        return;
-      }
-
       const elapsed = Date.now() - turnStart;
-      const remaining = Math.max(0, TURN_TIMEOUT_MS - elapsed);
+      const remaining = Math.max(0, turnTimeoutMs - elapsed);
       setTimeRemaining(remaining);
 
-      if (remaining <= 0 && !autoPlayTriggeredRef.current) {
-        autoPlayTriggeredRef.current = true;
-        handleAutoPlay();
+      if (remaining <= 0 && reportedTurnRef.current !== turnStart) {
+        reportedTurnRef.current = turnStart;
+        onDeadlineRef.current(roomCode).catch((err: unknown) => {
+          console.error('[AutoPlay] Deadline check failed:', err);
+        });
       }
     };
 
@@ -99,14 +79,14 @@ export function useAutoPlay({
       clearTimeout(initialId);
       if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [shouldRunTimer, turnStartTime, handleAutoPlay]);
+  }, [shouldRunTimer, turnStartTime, turnTimeoutMs, roomCode]);
 
   // Derived values using useMemo to avoid recalculation
   const { showCountdown, isCritical, secondsLeft } = useMemo(() => ({
-    showCountdown: timeRemaining !== null && timeRemaining <= COUNTDOWN_WARNING_MS,
+    showCountdown: timeRemaining !== null && timeRemaining <= Math.min(COUNTDOWN_WARNING_MS, turnTimeoutMs / 2),
     isCritical: timeRemaining !== null && timeRemaining <= 5000,
     secondsLeft: timeRemaining !== null ? Math.ceil(timeRemaining / 1000) : null
-  }), [timeRemaining]);
+  }), [timeRemaining, turnTimeoutMs]);
 
   return { timeRemaining, showCountdown, isCritical, secondsLeft };
 }
@@ -36,7 +36,7 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
       'Oya Pick Two!', 'Oya Pick Three!', 'Go to market my friend!', 'Hold On!',
       'Suspension!', 'Check Up!', 'Last Card oo!', 'Continue!',
       'I need Circle!', 'I need Square!', 'I need Triangle!', 'I need Star!', 'I need Cross!',
-      'Warning! Two cards left!',
+      'Warning! Two cards left!', 'You don cast! Oya pick!', 'Na lie o! Oya pick!',
     ]);
   }, [isMuted, preload]);
 
@@ -109,7 +109,8 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
     lastAnnouncedCard.current = cardKey;
 
     const rules = gameState?.rules;
-    const isPowerCard = [1, 2, 5, 8, 14, 20].includes(topCard.number);
+    const isReverseCard = !!rules?.reverseCard && topCard.number === rules.reverseCard;
+    const isPowerCard = isReverseCard || [1, 2, 5, 8, 14, 20].includes(topCard.number);
 
     // Check for pending "Continue" announcement
     if (pendingContinue.current && !winner) {
@@ -148,6 +149,9 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
             play(`I need ${shape}!`);
           }
           break;
+        default:
+          if (isReverseCard) play('Turn am back!');
+          break;
       }
     };
 
@@ -167,6 +171,8 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
     // Create a unique key for this action to prevent duplicate announcements
     // Include a portion of the action text to differentiate between different warnings
     const actionKey = action.includes('last card') ? `lastcard-${action}` 
+      : action.includes('caught') ? `caught-${action}`
+      : action.includes('for nothing') ? `wrongchallenge-${action}`
       : action.includes('warning') && action.includes('two cards') ? `twocard-${action}`
       : null;
     
@@ -175,6 +181,10 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
 
     if (action.includes('last card')) {
       play('Last Card oo!');
+    } else if (action.includes('caught')) {
+      play('You don cast! Oya pick!');
+    } else if (action.includes('for nothing')) {
+      play('Na lie o! Oya pick!');
     } else if (action.includes('warning') && action.includes('two cards')) {
       play('Warning! Two cards left!');
     }
@@ -221,8 +231,8 @@ export function useGameAnnouncer({ gameState, isMuted }: UseGameAnnouncerOptions
     let applauseTimer: number | undefined;
     
     if (!isMuted) {
-      // Speak "Check Up!" immediately
-      play('Check Up!');
+      // Speak "Check Up!" immediately (the market running out is a check up by count)
+      play(gameState?.roundResult?.reason === 'check_up' ? 'Market don finish! Check Up!' : 'Check Up!');
       
       // Then winner phrase
       winnerPhraseTimer = window.setTimeout(() => {
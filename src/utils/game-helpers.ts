@@ -1,30 +1,23 @@
-import { Card, CardShape } from '../types/game';
-import { createWhotDeck, canPlayCard as whotCanPlayCard } from './whot-rules';
-
 export function generateRoomCode(): string {
   return Math.floor(1000 + Math.random() * 9000).toString();
 }
 
-// Use authentic Nigerian Whot deck
-export function createDeck(): Card[] {
-  return createWhotDeck();
+export function generatePlayerId(): string {
+  return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+// Turn time limit for display: "Off", "15s", "2 min"
+export function formatTurnTimeLimit(seconds: number): string {
+  if (seconds === 0) return 'Off';
+  return seconds >= 120 ? `${seconds / 60} min` : `${seconds}s`;
 }
 
-// Use authentic Whot rules for card matching
-export function canPlayCard(card: Card, currentCard: Card, selectedShape: CardShape | null): boolean {
-  if (!currentCard) return false;
-  return whotCanPlayCard(card, currentCard, selectedShape);
+// Reverse card rule for display: "Off", "Card 7"
+export function formatReverseCard(cardNumber: number): string {
+  return cardNumber === 0 ? 'Off' : `Card ${cardNumber}`;
 }
 
-export function generatePlayerId(): string {
-  return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
\ No newline at end of file
+// Last card penalty for display: "Off", "Pick 2"
+export function formatLastCardPenalty(cards: number): string {
+  return cards === 0 ? 'Off' : `Pick ${cards}`;
+}
@@ -0,0 +1,31 @@
+import { GameMessage } from '../types/game';
+import { isLocalBackend } from './supabase-client';
+import { createSupabaseTransport } from './supabase-transport';
+import { createLocalTransport } from './local-transport';
+
+// How the app reaches the game server and a room's live channel. Supabase in
+// production; VITE_WHOT_TRANSPORT=local swaps in an in-browser server for
+// development, demos and end-to-end tests without a network.
+
+export type ChannelStatus = 'connected' | 'error';
+
+export interface RoomChannelHandlers {
+  onMessage: (message: GameMessage) => void;
+  onPresence: (playerIds: string[]) => void; // Seats tracked on the channel right now, sorted
+  onStatus: (status: ChannelStatus, detail?: string) => void;
+}
+
+export interface RoomChannel {
+  send: (message: GameMessage) => Promise<void>; // To everyone else on the channel
+  track: (playerId: string) => Promise<void>; // Announce this device's seat until untracked or closed
+  untrack: () => Promise<void>;
+  close: () => void;
+}
+
+export interface GameTransport {
+  openRoom: (roomCode: string, handlers: RoomChannelHandlers) => RoomChannel;
+  // POST a JSON body to a game server route such as '/game/play-card'
+  request: (endpoint: string, body: Record<string, unknown>) => Promise<Response>;
+}
+
+export const transport: GameTransport = isLocalBackend ? createLocalTransport() : createSupabaseTransport();
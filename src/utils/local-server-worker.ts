@@ -0,0 +1,16 @@
+import { handleLocalRequest, LocalRequest } from './local-server';
+
+// SharedWorker entry for local mode: one in-memory game server for every tab
+const scope = self as unknown as { onconnect: ((event: MessageEvent) => void) | null };
+
+scope.onconnect = (event) => {
+  const port = event.ports[0];
+  port.onmessage = (message: MessageEvent<LocalRequest>) => {
+    handleLocalRequest(message.data)
+      .then(response => port.postMessage(response))
+      .catch((e: unknown) => {
+        const error = e instanceof Error ? e.message : 'Local server error';
+        port.postMessage({ id: message.data.id, status: 500, body: JSON.stringify({ error }) });
+      });
+  };
+};
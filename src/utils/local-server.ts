@@ -0,0 +1,51 @@
+import { app, configureServer } from '../../supabase/functions/whot-server/app.ts';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store.ts';
+import { GameMessage } from '../types/game';
+
+// The whot-server Edge Function run in the browser: same routes, rooms kept in
+// memory, room messages over BroadcastChannel. Loaded by the local transport,
+// in a SharedWorker when available so every tab plays against one server.
+
+// What travels on a room's BroadcastChannel (`whot-<roomCode>`)
+export type LocalChannelMessage =
+  | { kind: 'broadcast'; payload: GameMessage }
+  | { kind: 'presence'; clientId: string; playerId: string | null } // null once the device stops tracking
+  | { kind: 'presence-sync' }; // Ask everyone tracking a seat to announce it again
+
+export interface LocalRequest {
+  id: number;
+  endpoint: string;
+  body: Record<string, unknown>;
+}
+
+export interface LocalResponse {
+  id: number;
+  status: number;
+  body: string;
+}
+
+const channels = new Map<string, BroadcastChannel>();
+
+configureServer({
+  store: createMemoryStore(),
+  publish: async (topic, _event, payload) => {
+    let channel = channels.get(topic);
+    if (!channel) {
+      channel = new BroadcastChannel(topic);
+      channels.set(topic, channel);
+    }
+    const message: LocalChannelMessage = { kind: 'broadcast', payload: payload as unknown as GameMessage };
+    channel.postMessage(message);
+  },
+  // Tokens only need to outlive this server, which forgets every room when it stops
+  seatTokenSecret: crypto.randomUUID(),
+});
+
+export async function handleLocalRequest({ id, endpoint, body }: LocalRequest): Promise<LocalResponse> {
+  const response = await app.fetch(new Request(`http://localhost/whot-server${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+  return { id, status: response.status, body: await response.text() };
+}
@@ -0,0 +1,102 @@
+import type { GameTransport, RoomChannel, RoomChannelHandlers } from './game-transport';
+import type { LocalChannelMessage, LocalRequest, LocalResponse } from './local-server';
+
+type SendRequest = (request: LocalRequest) => Promise<LocalResponse>;
+
+// One server per browser: a SharedWorker shared by every tab, or the page itself where
+// SharedWorker is missing (then each tab is its own server and can't see the others' rooms)
+function connectLocalServer(): SendRequest {
+  if (typeof SharedWorker === 'undefined') {
+    const server = import('./local-server');
+    return async (request) => (await server).handleLocalRequest(request);
+  }
+
+  const worker = new SharedWorker(new URL('./local-server-worker.ts', import.meta.url), { type: 'module', name: 'whot-local-server' });
+  const pending = new Map<number, (response: LocalResponse) => void>();
+  worker.port.onmessage = (event: MessageEvent<LocalResponse>) => {
+    pending.get(event.data.id)?.(event.data);
+    pending.delete(event.data.id);
+  };
+  worker.port.start();
+
+  return (request) => new Promise(resolve => {
+    pending.set(request.id, resolve);
+    worker.port.postMessage(request);
+  });
+}
+
+// Rooms over BroadcastChannel between tabs, moves through the game server running in the browser
+export function createLocalTransport(): GameTransport {
+  let sendRequest: SendRequest | null = null;
+  let nextRequestId = 1;
+
+  const openRoom = (roomCode: string, handlers: RoomChannelHandlers): RoomChannel => {
+    const channel = new BroadcastChannel(`whot-${roomCode}`);
+    const clientId = crypto.randomUUID();
+    const seats = new Map<string, string>(); // Other devices' tracked seats, by clientId
+    let trackedId: string | null = null;
+
+    const post = (message: LocalChannelMessage) => channel.postMessage(message);
+    const announce = () => post({ kind: 'presence', clientId, playerId: trackedId });
+    const syncPresence = () => {
+      const ids = [...seats.values(), ...(trackedId ? [trackedId] : [])];
+      handlers.onPresence([...new Set(ids)].sort());
+    };
+    // A closed tab can't untrack itself, so say goodbye on the way out
+    const leave = () => {
+      if (trackedId) post({ kind: 'presence', clientId, playerId: null });
+    };
+
+    channel.onmessage = (event: MessageEvent<LocalChannelMessage>) => {
+      const message = event.data;
+      if (message.kind === 'broadcast') {
+        handlers.onMessage(message.payload);
+      } else if (message.kind === 'presence') {
+        if (message.playerId) seats.set(message.clientId, message.playerId);
+        else seats.delete(message.clientId);
+        syncPresence();
+      } else if (trackedId) {
+        announce();
+      }
+    };
+    window.addEventListener('pagehide', leave);
+
+    // BroadcastChannel needs no handshake; report connected once the caller has its channel
+    queueMicrotask(() => {
+      handlers.onStatus('connected');
+      post({ kind: 'presence-sync' });
+    });
+
+    return {
+      send: async (message) => {
+        post({ kind: 'broadcast', payload: message });
+      },
+      track: async (playerId) => {
+        trackedId = playerId;
+        announce();
+        syncPresence();
+      },
+      untrack: async () => {
+        leave();
+        trackedId = null;
+        syncPresence();
+      },
+      close: () => {
+        leave();
+        window.removeEventListener('pagehide', leave);
+        channel.close();
+      },
+    };
+  };
+
+  const request = async (endpoint: string, body: Record<string, unknown>) => {
+    sendRequest ??= connectLocalServer();
+    const response = await sendRequest({ id: nextRequestId++, endpoint, body });
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  return { openRoom, request };
+}
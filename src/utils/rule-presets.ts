@@ -0,0 +1,61 @@
+import { DEFAULT_RULES, GameRules, RulePreset } from '../types/game';
+
+// Rule sets every host gets; codes are slugs so they never clash with saved presets
+export const BUILT_IN_PRESETS: RulePreset[] = [
+  {
+    code: 'lagos-classic',
+    name: 'Lagos Classic',
+    rules: {
+      pickTwo: true,
+      pickThree: true,
+      defendPick: true,
+      starEightSkipsTwo: true,
+      lastCardPenalty: 2,
+    },
+  },
+  {
+    code: 'tournament',
+    name: 'Tournament',
+    rules: {
+      pickTwo: true,
+      pickThree: true,
+      defendPick: true,
+      crossStack: true,
+      starEightSkipsTwo: true,
+      lastCardPenalty: 2,
+      turnTimeLimit: 30,
+      matchTarget: 150,
+    },
+  },
+  {
+    code: 'beginner',
+    name: 'Beginner',
+    rules: {
+      pickTwo: true,
+      pickThree: false,
+      whotBlocksPick: true,
+      turnTimeLimit: 120,
+      handSize: 5,
+    },
+  },
+];
+
+export function findBuiltInPreset(code: string): RulePreset | undefined {
+  return BUILT_IN_PRESETS.find(preset => preset.code === code.trim().toLowerCase());
+}
+
+// A preset's rules on top of the defaults, so switching presets never keeps stale toggles
+export function presetRules(preset: RulePreset): GameRules {
+  return { ...DEFAULT_RULES, ...preset.rules };
+}
+
+// Whether the rules being set up are exactly this preset's
+export function isPresetActive(preset: RulePreset, rules: GameRules): boolean {
+  const expected = presetRules(preset);
+  return (Object.keys(expected) as (keyof GameRules)[]).every(key => rules[key] === expected[key]);
+}
+
+// Link that opens a new room with this preset loaded
+export function presetShareUrl(code: string): string {
+  return `${window.location.origin}${window.location.pathname}?preset=${encodeURIComponent(code)}`;
+}
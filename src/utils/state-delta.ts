@@ -0,0 +1,2 @@
+// Broadcast deltas, applied with the same code the server diffs them with
+export * from '../../supabase/functions/_shared/state-delta.ts';
@@ -3,8 +3,11 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+// Local mode runs the game server in the browser and needs no Supabase project
+export const isLocalBackend = import.meta.env.VITE_WHOT_TRANSPORT === 'local';
+
+if (!isLocalBackend && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = isLocalBackend ? null : createClient(supabaseUrl, supabaseAnonKey);
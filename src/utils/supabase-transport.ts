@@ -0,0 +1,113 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { GameMessage } from '../types/game';
+import { supabase } from './supabase-client';
+import type { GameTransport, RoomChannel, RoomChannelHandlers } from './game-transport';
+
+type BroadcastEnvelope = {
+  type: 'broadcast';
+  event: 'game-message';
+  payload: GameMessage;
+};
+
+// Rooms over Supabase Realtime (broadcast + presence), moves through the whot-server Edge Function
+export function createSupabaseTransport(): GameTransport {
+  const client = supabase;
+  if (!client) throw new Error('Supabase is not configured');
+
+  let accessToken: string | null = null;
+  client.auth
+    .getSession()
+    .then(({ data: { session } }) => {
+      accessToken = session?.access_token ?? null;
+    })
+    .catch(() => {
+      // Ignore session lookup failures; fall back to anon key
+    });
+  client.auth.onAuthStateChange((_event, session) => {
+    accessToken = session?.access_token ?? null;
+  });
+
+  const openRoom = (roomCode: string, handlers: RoomChannelHandlers): RoomChannel => {
+    const channel: RealtimeChannel = client.channel(`whot-${roomCode}`);
+
+    const syncPresence = () => {
+      const ids = Object.values(channel.presenceState<{ playerId: string }>())
+        .flat()
+        .map(meta => meta.playerId)
+        .filter(Boolean);
+      handlers.onPresence([...new Set(ids)].sort());
+    };
+
+    channel
+      .on('broadcast', { event: 'game-message' }, (payload: { payload: GameMessage }) => {
+        handlers.onMessage(payload.payload);
+      })
+      .on('presence', { event: 'sync' }, syncPresence)
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          handlers.onStatus('connected');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          handlers.onStatus('error', status);
+        }
+      });
+
+    return {
+      send: async (message) => {
+        const envelope: BroadcastEnvelope = { type: 'broadcast', event: 'game-message', payload: message };
+        await channel.send(envelope);
+      },
+      track: async (playerId) => {
+        await channel.track({ playerId });
+      },
+      untrack: async () => {
+        await channel.untrack();
+      },
+      close: () => {
+        client.removeChannel(channel);
+      },
+    };
+  };
+
+  const request = async (endpoint: string, body: Record<string, unknown>) => {
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+    const functionRegion = import.meta.env.VITE_SUPABASE_FUNCTION_REGION as string | undefined;
+
+    // In local dev: http://localhost:54321/functions/v1/whot-server/...
+    // In prod: https://[project].supabase.co/functions/v1/whot-server/...
+    const projectUrl = import.meta.env.VITE_SUPABASE_URL;
+    const functionBaseUrl = `${projectUrl}/functions/v1/whot-server${endpoint}`;
+    // Supabase docs: when you can't add an `x-region` header (e.g. CORS), use `forceFunctionRegion`.
+    // Using a query param also avoids introducing an extra custom header.
+    let functionUrl = functionRegion
+      ? `${functionBaseUrl}${functionBaseUrl.includes('?') ? '&' : '?'}forceFunctionRegion=${encodeURIComponent(functionRegion)}`
+      : functionBaseUrl;
+
+    if (typeof body.roomCode === 'string' && body.roomCode) {
+      const sep = functionUrl.includes('?') ? '&' : '?';
+      functionUrl = `${functionUrl}${sep}room=${encodeURIComponent(body.roomCode)}`;
+    }
+
+    const isLikelyJwt = (value: string | null | undefined) =>
+      typeof value === 'string' && value.startsWith('eyJ');
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      // Supabase API gateway expects an API key header even for Edge Functions.
+      apikey: anonKey,
+    };
+
+    // Authorization rules:
+    // - If signed in: send the user access token.
+    // - If not signed in: only send anon key as Bearer if it's a legacy JWT anon key.
+    //   (Publishable keys are not JWTs and should not be used as Authorization Bearer.)
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
+    } else if (isLikelyJwt(anonKey)) {
+      headers.Authorization = `Bearer ${anonKey}`;
+    }
+
+    return fetch(functionUrl, { method: 'POST', headers, body: JSON.stringify(body) });
+  };
+
+  return { openRoom, request };
+}
@@ -1,124 +1,161 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { supabase } from './supabase-client';
-import { GameState, GameMessage, Card, CardShape, GameRules } from '../types/game';
-import type { RealtimeChannel } from '@supabase/supabase-js';
-
-type BroadcastEnvelope = {
-  type: 'broadcast';
-  event: 'game-message';
-  payload: GameMessage;
-};
+import { transport, RoomChannel } from './game-transport';
+import { applyDelta } from './state-delta';
+import { GameState, GameMessage, Card, CardShape, GameRules, Player, ReplayFrame, LobbyState, BotLevel, RulePreset, StateDelta } from '../types/game';
 
 interface GameConnection {
   isConnected: boolean;
   error: string | null;
   gameState: GameState | null;
+  lobby: LobbyState | null;
   playerId: string | null;
+  onlinePlayerIds: string[]; // Players whose phones are on the room channel right now (Realtime Presence)
+  createRoom: () => Promise<string>;
+  fetchLobby: (roomCode: string) => Promise<LobbyState | null>;
   joinGame: (roomCode: string, playerName: string, playerId: string) => Promise<void>;
-  startGame: (roomCode: string, players: {id: string, name: string}[], rules?: Partial<GameRules>) => Promise<void>;
-  playCard: (roomCode: string, playerId: string, card: Card, selectedShape?: CardShape | null) => Promise<void>;
+  leaveRoom: (roomCode: string, playerId: string) => Promise<void>;
+  kickPlayer: (roomCode: string, playerId: string) => Promise<void>;
+  reportPresence: (roomCode: string, onlinePlayerIds: string[]) => Promise<void>;
+  addBot: (roomCode: string, name: string, botLevel: BotLevel) => Promise<void>;
+  startGame: (roomCode: string, players: Pick<Player, 'id' | 'name' | 'isBot' | 'botLevel'>[], rules?: Partial<GameRules>, seed?: number) => Promise<void>;
+  playCard: (roomCode: string, playerId: string, card: Card, selectedShape?: CardShape | null, declareLastCard?: boolean) => Promise<void>; // declareLastCard: call "Last Card!" with this play
+  declareLastCard: (roomCode: string, playerId: string) => Promise<void>; // Call "Last Card!" before playing down to one
+  challengeLastCard: (roomCode: string, playerId: string, targetId: string) => Promise<{ caught: boolean }>; // Blind: a wrong challenge makes us pick
   drawCard: (roomCode: string, playerId: string) => Promise<{ success: boolean; cards: Card[] }>;
   getHand: (roomCode: string, playerId: string) => Promise<Card[]>;
   setReady: (roomCode: string, playerId: string) => Promise<void>;
   fetchGameState: (roomCode: string) => Promise<GameState | null>;
   sendMessage: (message: GameMessage) => Promise<void>; // Basic broadcast
-  updateRules: (roomCode: string, playerId: string, playerName: string, rules: Partial<GameRules>) => Promise<void>;
-  triggerAutoPlay: (roomCode: string, playerId: string) => Promise<void>;
+  updateRules: (roomCode: string, rules: Partial<GameRules>) => Promise<void>; // Host only
+  checkTurnDeadline: (roomCode: string) => Promise<void>; // Server auto-plays the turn if it has expired
+  fetchReplay: (roomCode: string, gameId?: string) => Promise<ReplayFrame[]>;
+  savePreset: (name: string, rules: Partial<GameRules>) => Promise<RulePreset>; // Returns the preset with its share code
+  fetchPreset: (code: string) => Promise<RulePreset>;
 }
 
-export function useGameConnection(roomCode: string | null, onMessage?: (msg: GameMessage) => void): GameConnection {
+// Requests that change the game carry an actionId so a retry is never applied twice
+const MUTATING_ENDPOINTS = new Set(['/game/start', '/game/play-card', '/game/draw', '/game/ready', '/game/update-rules', '/game/auto-play', '/game/last-card', '/game/challenge']);
+// Network failures and gateway timeouts are retried with the same actionId
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 400;
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+// Only host-only requests carry the host token (adding a bot is a host-only /room/join)
+const HOST_ENDPOINTS = new Set(['/room/kick', '/room/presence', '/game/start', '/game/update-rules']);
+
+// Seat tokens are issued once per room and player, so they must survive reloads
+const seatTokenKey = (roomCode: string, playerId: string) => `whot-seat-token-${roomCode}-${playerId}`;
+// Held by the device that created the room; lets a reloaded host pick the lobby back up
+export const hostTokenKey = (roomCode: string) => `whot-host-token-${roomCode}`;
+
+// `presenceId` is the seat this device tracks on the room channel; the host table tracks none
+export function useGameConnection(roomCode: string | null, onMessage?: (msg: GameMessage) => void, presenceId?: string): GameConnection {
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [lobby, setLobby] = useState<LobbyState | null>(null);
   const [playerId, setPlayerId] = useState<string | null>(null);
+  const [onlinePlayerIds, setOnlinePlayerIds] = useState<string[]>([]);
 
-  const channelRef = useRef<RealtimeChannel | null>(null);
+  const channelRef = useRef<RoomChannel | null>(null);
   const isSubscribedRef = useRef(false);
-  const pendingBroadcastsRef = useRef<BroadcastEnvelope[]>([]);
-  const accessTokenRef = useRef<string | null>(null);
-  const lastGameStateTimestampRef = useRef<number>(0);
-
-  useEffect(() => {
-    let isMounted = true;
-
-    supabase.auth
-      .getSession()
-      .then(({ data: { session } }) => {
-        if (!isMounted) return;
-        accessTokenRef.current = session?.access_token ?? null;
-      })
-      .catch(() => {
-        // Ignore session lookup failures; fall back to anon key
-      });
-
-    const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
-      accessTokenRef.current = session?.access_token ?? null;
-    });
-
-    return () => {
-      isMounted = false;
-      authListener?.subscription?.unsubscribe();
-    };
+  const pendingBroadcastsRef = useRef<GameMessage[]>([]);
+  const lastGameStateVersionRef = useRef<number>(0);
+  const gameStateRef = useRef<GameState | null>(null); // The state deltas apply to
+
+  // Apply a server state unless a newer version has already arrived (broadcasts can land out of order)
+  const applyGameState = useCallback((next: GameState) => {
+    if (typeof next.version === 'number') {
+      if (next.version < lastGameStateVersionRef.current) {
+        console.warn('[GameConn] Ignoring stale update: version', next.version, 'vs', lastGameStateVersionRef.current);
+        return;
+      }
+      lastGameStateVersionRef.current = next.version;
+    }
+    gameStateRef.current = next;
+    setGameState(next);
   }, []);
 
+  // Apply a broadcast delta on top of the state it was made from. Returns false when this
+  // client doesn't hold that version (it missed a broadcast) and must fetch the full state.
+  const applyStateDelta = useCallback((delta: StateDelta): boolean => {
+    const current = gameStateRef.current;
+    if (current && (current.version ?? 0) === delta.baseVersion) {
+      try {
+        applyGameState(applyDelta(current, delta));
+        return true;
+      } catch (e) {
+        console.warn('[GameConn] Failed to apply delta:', e);
+        return false;
+      }
+    }
+    // Out of order: fine if we already hold this version or a newer one
+    return delta.version <= lastGameStateVersionRef.current;
+  }, [applyGameState]);
+
   const sendBroadcast = useCallback(async (payload: GameMessage) => {
     const channel = channelRef.current;
     if (!channel) throw new Error('No connection');
 
-    const envelope: BroadcastEnvelope = {
-      type: 'broadcast',
-      event: 'game-message',
-      payload,
-    };
-
     if (isSubscribedRef.current) {
-      await channel.send(envelope);
+      await channel.send(payload);
       return;
     }
 
-    pendingBroadcastsRef.current.push(envelope);
+    pendingBroadcastsRef.current.push(payload);
   }, []);
 
-  // Subscribe to Realtime Channel
+  // Subscribe to the room channel
   useEffect(() => {
     if (!roomCode) return;
 
 
     isSubscribedRef.current = false;
     pendingBroadcastsRef.current = [];
-    const channel = supabase.channel(`whot-${roomCode}`);
-    channelRef.current = channel;
-
-    channel
-      .on('broadcast', { event: 'game-message' }, (payload: { payload: GameMessage }) => {
-        if (onMessage) onMessage(payload.payload);
-        
-        // Auto-update local state whenever a message carries a game state
-        if (payload.payload.gameState) {
-          const incomingTs = payload.payload.timestamp;
+    lastGameStateVersionRef.current = 0;
+    gameStateRef.current = null;
+
+    // Fetch the full state after a gap in the deltas; one request at a time
+    let resyncing = false;
+    const resync = () => {
+      if (resyncing) return;
+      resyncing = true;
+      transport.request('/game/get-state', { roomCode: roomCode.trim() })
+        .then(res => (res.ok ? res.json() : null))
+        .then((res: { gameState?: GameState } | null) => {
+          if (res?.gameState) applyGameState(res.gameState);
+        })
+        .catch((e: unknown) => {
+          console.error('[GameConn] Resync failed:', e);
+        })
+        .finally(() => {
+          resyncing = false;
+        });
+    };
 
-          if (typeof incomingTs === 'number' && incomingTs > 0) {
-            if (incomingTs < lastGameStateTimestampRef.current) {
-              console.warn('[GameConn] Ignoring stale update:', incomingTs, 'vs', lastGameStateTimestampRef.current);
-              return;
-            }
-            lastGameStateTimestampRef.current = incomingTs;
-          }
+    const channel = transport.openRoom(roomCode, {
+      onMessage: (message) => {
+        if (onMessage) onMessage(message);
 
-          // Always use full state update
-          setGameState(payload.payload.gameState);
+        if (message.lobby) setLobby(message.lobby);
+        
+        // Auto-update local state whenever a message carries a game state: a full
+        // snapshot, or a delta from the previous broadcast
+        if (message.gameState) {
+          applyGameState(message.gameState);
+        } else if (message.delta && !applyStateDelta(message.delta)) {
+          resync();
         }
-      })
-      .subscribe((status) => {
-        if (status === 'SUBSCRIBED') {
+      },
+      onPresence: setOnlinePlayerIds,
+      onStatus: (status, detail) => {
+        if (status === 'connected') {
           isSubscribedRef.current = true;
           setIsConnected(true);
 
-          const channel = channelRef.current;
           const queued = pendingBroadcastsRef.current;
           pendingBroadcastsRef.current = [];
 
-          if (channel && queued.length > 0) {
+          if (queued.length > 0) {
             (async () => {
               for (const msg of queued) {
                 await channel.send(msg);
@@ -127,54 +164,42 @@ export function useGameConnection(roomCode: string | null, onMessage?: (msg: Gam
               console.error('[GameConn] Failed to flush queued broadcasts:', e);
             });
           }
-        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
-          console.error('[GameConn] Connection error:', status);
-          setError(`Connection failed: ${status}`);
+        } else {
+          console.error('[GameConn] Connection error:', detail);
+          setError(`Connection failed: ${detail}`);
           setIsConnected(false);
           isSubscribedRef.current = false;
         }
-      });
+      },
+    });
+    channelRef.current = channel;
 
     return () => {
 
       isSubscribedRef.current = false;
       pendingBroadcastsRef.current = [];
-      supabase.removeChannel(channel);
+      channel.close();
       setIsConnected(false);
+      setOnlinePlayerIds([]);
     };
-  }, [roomCode, onMessage]);
-
-  // Edge Function Calls
-  const invokeFunctions = async (endpoint: string, body: Record<string, unknown>) => {
-    // Get function URL
-    // In local dev: http://localhost:54321/functions/v1/whot-server/...
-    // In prod: https://[project].supabase.co/functions/v1/whot-server/...
-    
-    // We can rely on supabase-js to get the base URL?
-    // supabase.functions.getUrl('whot-server') is available in newer versions?
-    // If not, we construct it.
-    
-    // Let's try to use `invoke` but modify the server to handle `/` with action dispatch?
-    // Re-reading my server code: `app.post("/game/start", ...)`
-    // This expects the path.
-    // It's safer to use `fetch` with the session token.
-    
-    const token = accessTokenRef.current; // Avoid per-request session lookup
-    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
-    const functionRegion = import.meta.env.VITE_SUPABASE_FUNCTION_REGION as string | undefined;
-    
-    // Construct base URL
-    const projectUrl = import.meta.env.VITE_SUPABASE_URL;
-    const functionBaseUrl = `${projectUrl}/functions/v1/whot-server${endpoint}`;
-    // Supabase docs: when you can't add an `x-region` header (e.g. CORS), use `forceFunctionRegion`.
-    // Using a query param also avoids introducing an extra custom header.
-    let functionUrl = functionRegion
-      ? `${functionBaseUrl}${functionBaseUrl.includes('?') ? '&' : '?'}forceFunctionRegion=${encodeURIComponent(functionRegion)}`
-      : functionBaseUrl;
+  }, [roomCode, onMessage, applyGameState, applyStateDelta]);
 
-    const isLikelyJwt = (value: string | null | undefined) =>
-      typeof value === 'string' && value.startsWith('eyJ');
+  // Announce this seat on the channel once subscribed; Presence drops it when the phone disconnects
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel || !isConnected || !presenceId) return;
+    channel.track(presenceId).catch((e: unknown) => {
+      console.error('[GameConn] Failed to track presence:', e);
+    });
+    return () => {
+      channel.untrack().catch(() => {
+        // Channel already closed
+      });
+    };
+  }, [isConnected, presenceId]);
 
+  // Game server calls (Edge Function, or the in-browser server in local mode)
+  const invokeFunctions = async (endpoint: string, body: Record<string, unknown>) => {
     const normalizeString = (value: unknown) =>
       typeof value === 'string' ? value.trim() : value;
 
@@ -183,35 +208,33 @@ export function useGameConnection(roomCode: string | null, onMessage?: (msg: Gam
       roomCode: normalizeString(body.roomCode),
       playerId: normalizeString(body.playerId),
       playerName: normalizeString(body.playerName),
+      ...(MUTATING_ENDPOINTS.has(endpoint) ? { actionId: crypto.randomUUID() } : {}),
     };
 
-    const roomForLogs = typeof normalizedBody.roomCode === 'string' ? normalizedBody.roomCode : null;
-    if (roomForLogs) {
-      const sep = functionUrl.includes('?') ? '&' : '?';
-      functionUrl = `${functionUrl}${sep}room=${encodeURIComponent(roomForLogs)}`;
+    // Prove the seat: routes that reveal a hand or move for a player require its token
+    if (typeof normalizedBody.roomCode === 'string' && typeof normalizedBody.playerId === 'string') {
+      const seatToken = localStorage.getItem(seatTokenKey(normalizedBody.roomCode, normalizedBody.playerId));
+      if (seatToken) normalizedBody.seatToken = seatToken;
     }
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      // Supabase API gateway expects an API key header even for Edge Functions.
-      apikey: anonKey,
-    };
-
-    // Authorization rules:
-    // - If signed in: send the user access token.
-    // - If not signed in: only send anon key as Bearer if it's a legacy JWT anon key.
-    //   (Publishable keys are not JWTs and should not be used as Authorization Bearer.)
-    if (token) {
-      headers.Authorization = `Bearer ${token}`;
-    } else if (isLikelyJwt(anonKey)) {
-      headers.Authorization = `Bearer ${anonKey}`;
+    // Host-only routes (start, kick, adding bots, rule changes) check the host token
+    const isHostRequest = HOST_ENDPOINTS.has(endpoint) || (endpoint === '/room/join' && body.isBot === true);
+    if (isHostRequest && typeof normalizedBody.roomCode === 'string') {
+      const hostToken = localStorage.getItem(hostTokenKey(normalizedBody.roomCode));
+      if (hostToken) normalizedBody.hostToken = hostToken;
     }
 
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(normalizedBody)
-    });
+    let response: Response | null = null;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        response = await transport.request(endpoint, normalizedBody);
+        if (!RETRYABLE_STATUS.has(response.status) || attempt >= MAX_RETRIES) break;
+      } catch (e) {
+        // Dropped connection: the server may or may not have applied the request
+        if (attempt >= MAX_RETRIES) throw e;
+      }
+      console.warn(`[GameConn] Retrying ${endpoint} (attempt ${attempt + 2})`);
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+    }
 
     if (!response.ok) {
        let errorMessage = 'Server error';
@@ -233,29 +256,65 @@ export function useGameConnection(roomCode: string | null, onMessage?: (msg: Gam
     isConnected,
     error,
     gameState,
+    lobby,
     playerId,
+    onlinePlayerIds,
+    createRoom: async () => {
+      const res = (await invokeFunctions('/room/create', {})) as { roomCode: string; hostToken: string; lobby: LobbyState };
+      localStorage.setItem(hostTokenKey(res.roomCode), res.hostToken);
+      setLobby(res.lobby);
+      return res.roomCode;
+    },
+    fetchLobby: async (roomCode) => {
+      try {
+        const res = (await invokeFunctions('/room/get', { roomCode })) as { lobby: LobbyState };
+        setLobby(res.lobby);
+        return res.lobby;
+      } catch (e) {
+        console.error('[GameConn] Failed to fetch lobby:', e);
+        return null;
+      }
+    },
     joinGame: async (roomCode, playerName, playerId) => {
-      // Just set local state, presence handled via interactions or explicit join?
-      // POC: Join via subscribing to channel + sending 'join' message
-      // But server needs to know?
-      // My server `game/start` initializes players from the request body?
-      // Ah, the server `start` takes a list of players.
-      // So players "join" by signaling the host?
-      // Yes, Host collects "join" messages via Realtime, then sends the list to `game/start`.
-      // So `joinGame` is just a Realtime broadcast.
-      await sendBroadcast({
-        type: 'join',
-        playerId: playerId,
-        playerName,
-        timestamp: Date.now()
-      });
+      // The server seats the player and broadcasts the lobby. The seat token only
+      // comes back on the first join; later joins send the stored one instead.
+      const res = (await invokeFunctions('/room/join', { roomCode, playerId, playerName })) as { lobby: LobbyState; seatToken?: string };
+      if (res.seatToken) localStorage.setItem(seatTokenKey(roomCode.trim(), playerId.trim()), res.seatToken);
+      setLobby(res.lobby);
       setPlayerId(playerId);
     },
-    startGame: async (roomCode, players, rules) => {
-      await invokeFunctions('/game/start', { roomCode, players, rules });
+    leaveRoom: async (roomCode, playerId) => {
+      const res = (await invokeFunctions('/room/leave', { roomCode, playerId })) as { lobby: LobbyState };
+      setLobby(res.lobby);
+    },
+    kickPlayer: async (roomCode, playerId) => {
+      const res = (await invokeFunctions('/room/kick', { roomCode, playerId })) as { lobby: LobbyState };
+      setLobby(res.lobby);
+    },
+    reportPresence: async (roomCode, onlinePlayerIds) => {
+      await invokeFunctions('/room/presence', { roomCode, onlinePlayerIds });
+    },
+    addBot: async (roomCode, name, botLevel) => {
+      const res = (await invokeFunctions('/room/join', {
+        roomCode,
+        playerId: `bot-${crypto.randomUUID()}`,
+        playerName: name,
+        isBot: true,
+        botLevel,
+      })) as { lobby: LobbyState };
+      setLobby(res.lobby);
     },
-    playCard: async (roomCode, playerId, card, selectedShape) => {
-      await invokeFunctions('/game/play-card', { roomCode, playerId, card, selectedShape });
+    startGame: async (roomCode, players, rules, seed) => {
+      await invokeFunctions('/game/start', { roomCode, players, rules, seed });
+    },
+    playCard: async (roomCode, playerId, card, selectedShape, declareLastCard) => {
+      await invokeFunctions('/game/play-card', { roomCode, playerId, card, selectedShape, declareLastCard });
+    },
+    declareLastCard: async (roomCode, playerId) => {
+      await invokeFunctions('/game/last-card', { roomCode, playerId });
+    },
+    challengeLastCard: async (roomCode, playerId, targetId) => {
+      return (await invokeFunctions('/game/challenge', { roomCode, playerId, targetId })) as { caught: boolean };
     },
     drawCard: async (roomCode, playerId) => {
       return (await invokeFunctions('/game/draw', { roomCode, playerId })) as { success: boolean; cards: Card[] };
@@ -275,18 +334,30 @@ export function useGameConnection(roomCode: string | null, onMessage?: (msg: Gam
         try {
         const res = (await invokeFunctions('/game/get-state', { roomCode })) as { gameState?: GameState };
         const fetched = res.gameState ?? null;
-        if (fetched) setGameState(fetched);
+        if (fetched) applyGameState(fetched);
         return fetched;
         } catch (e) {
             console.error('[GameConn] Failed to fetch game state:', e);
             return null;
         }
     },
-    updateRules: async (roomCode: string, playerId: string, playerName: string, rules: Partial<GameRules>) => {
-        await invokeFunctions('/game/update-rules', { roomCode, playerId, playerName, rules });
+    updateRules: async (roomCode: string, rules: Partial<GameRules>) => {
+        await invokeFunctions('/game/update-rules', { roomCode, rules });
+    },
+    checkTurnDeadline: async (roomCode: string) => {
+        await invokeFunctions('/game/tick', { roomCode });
+    },
+    fetchReplay: async (roomCode: string, gameId?: string) => {
+        const res = (await invokeFunctions('/game/replay', { roomCode, gameId })) as { frames: ReplayFrame[] };
+        return res.frames;
+    },
+    savePreset: async (name, rules) => {
+      const res = (await invokeFunctions('/presets/save', { name, rules })) as { preset: RulePreset };
+      return res.preset;
     },
-    triggerAutoPlay: async (roomCode: string, playerId: string) => {
-        await invokeFunctions('/game/auto-play', { roomCode, playerId });
+    fetchPreset: async (code) => {
+      const res = (await invokeFunctions('/presets/get', { code })) as { preset: RulePreset };
+      return res.preset;
     }
   };
 }
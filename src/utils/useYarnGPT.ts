@@ -32,6 +32,9 @@ export function useYarnGPT(enabled: boolean = true) {
     if (existingPromise) return existingPromise;
 
     const promise = (async () => {
+      // Local mode has no TTS function: stay quiet
+      if (!supabase) return null;
+
       // Call Edge Function to get audio URL (cached or generated)
       const { data, error } = await supabase.functions.invoke('whot-tts', {
         body: { text, voice }
@@ -0,0 +1,148 @@
+/**
+ * Action log for Naija Whot
+ * Every game is the seed plus an ordered list of actions. Each logged action
+ * carries a hash of the public state it produced, so a replay can prove it
+ * rebuilt exactly what the players saw.
+ */
+
+import { GameRules, GameState, MatchState, Player } from './game-types.ts';
+import { createInitialGameState } from './whot-rules.ts';
+import { reduce, GameAction } from './game-engine.ts';
+import { PublicGameState, toPublicState, withoutPrivate } from './public-state.ts';
+
+// First entry of every log: everything needed to rebuild the deal
+export interface StartAction {
+  type: 'start';
+  gameId: string;
+  roomCode: string;
+  players: Pick<Player, 'id' | 'name' | 'isBot' | 'botLevel'>[];
+  rules: Partial<GameRules>;
+  seed: number;
+  sessionWins: Record<string, number>;
+  match?: MatchState; // Running totals carried into this round of a match
+  timestamp: number;
+}
+
+export type LoggedAction = StartAction | GameAction;
+
+export interface ActionLogEntry {
+  seq: number; // 0 for the start entry, then +1 per action
+  action: LoggedAction;
+  stateHash: string; // hashPublicState() of the state after this action
+}
+
+export interface ReplayFrame {
+  seq: number;
+  action: Omit<StartAction, 'seed'> | GameAction; // Seed is never sent to clients
+  state: PublicGameState;
+  verified: boolean; // Rebuilt state hash matches the logged one
+}
+
+export function startGame(action: StartAction): GameState {
+  const state = createInitialGameState(action.roomCode, action.players, action.rules, action.seed);
+  state.gameId = action.gameId;
+  state.turnStartTime = action.timestamp;
+  state.sessionWins = { ...action.sessionWins };
+  if (action.match) state.match = structuredClone(action.match);
+  return state;
+}
+
+/**
+ * Assign the next sequence number to `state` (mutates it) and build its log entry
+ */
+export function stampAction(state: GameState, action: LoggedAction): ActionLogEntry {
+  state.actionSeq = action.type === 'start' ? 0 : (state.actionSeq ?? 0) + 1;
+  return { seq: state.actionSeq, action, stateHash: hashPublicState(state) };
+}
+
+/**
+ * Rebuild a game from its log. Stops early if an action no longer applies
+ * (the log and the engine disagree), returning the frames rebuilt so far.
+ */
+export function replayActionLog(entries: ActionLogEntry[]): ReplayFrame[] {
+  const ordered = [...entries].sort((a, b) => a.seq - b.seq);
+  const [first, ...rest] = ordered;
+  if (!first || first.action.type !== 'start') return [];
+
+  const { seed: _seed, ...publicStart } = first.action;
+  let state = startGame(first.action);
+  stampAction(state, first.action);
+  const frames: ReplayFrame[] = [{
+    seq: first.seq,
+    action: publicStart,
+    state: toPublicState(state),
+    verified: hashPublicState(state) === first.stateHash,
+  }];
+
+  for (const entry of rest) {
+    if (entry.action.type === 'start') break;
+    try {
+      state = reduce(state, entry.action).state;
+    } catch {
+      break;
+    }
+    stampAction(state, entry.action);
+    frames.push({
+      seq: entry.seq,
+      action: entry.action,
+      state: toPublicState(state),
+      verified: hashPublicState(state) === entry.stateHash,
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Catch a saved state up with log entries written after it (a deferred save
+ * that was never flushed). Stops at a gap in the log, an action that no longer
+ * applies or a hash mismatch, returning the state as far as it could be rebuilt.
+ * Each rebuilt move bumps the version, as saving it live did.
+ */
+export function rollForward(state: GameState, entries: ActionLogEntry[]): GameState {
+  let current = state;
+  for (const entry of [...entries].sort((a, b) => a.seq - b.seq)) {
+    if (entry.action.type === 'start' || entry.seq !== (current.actionSeq ?? 0) + 1) break;
+    let next: GameState;
+    try {
+      next = reduce(current, entry.action).state;
+    } catch {
+      break;
+    }
+    stampAction(next, entry.action);
+    if (hashPublicState(next) !== entry.stateHash) break;
+    next.version = (current.version ?? 0) + 1;
+    current = next;
+  }
+  return current;
+}
+
+// FNV-1a over canonical JSON: cheap, synchronous and identical in Deno and the browser
+export function hashPublicState(state: GameState): string {
+  const text = canonicalJson(hashedState(state));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// The public state with its whole discard pile. Version and connection bookkeeping are server
+// plumbing, not game state: left out so replays hash identically.
+function hashedState(state: GameState) {
+  return { ...withoutPrivate(state), version: undefined, disconnectedSince: undefined };
+}
+
+// JSON with sorted keys and undefined fields dropped, so key order never changes the hash
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(v => canonicalJson(v ?? null)).join(',')}]`;
+
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    .join(',')}}`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Auto-play strategies for Naija Whot
+ * Chooses the move made on a player's behalf when their turn timer runs out.
+ * A strategy only picks among cards the rules already allow; the engine still
+ * applies the move, so swapping strategies can never produce an illegal play.
+ */
+
+import { Card, CardShape, GameRules, GameState, DEFAULT_RULES } from './game-types.ts';
+
+export interface AutoPlayChoice {
+  card: Card;
+  selectedShape: CardShape | null; // Only set when `card` is a Whot
+}
+
+export interface AutoPlayStrategy {
+  name: string;
+  // `playable` is never empty; `hand` is the player's full hand
+  choose(playable: Card[], hand: Card[], state: GameState, random: () => number): AutoPlayChoice;
+}
+
+const SHAPES: CardShape[] = ['circle', 'triangle', 'cross', 'square', 'star'];
+
+// Points a card costs its holder when someone checks up (stars count double)
+export function penaltyValue(card: Card): number {
+  if (card.number === 20) return 20;
+  return card.shape === 'star' ? card.number * 2 : card.number;
+}
+
+// Hold On, Suspension and General Market always act; Pick Two/Three only when enabled
+export function isSpecialCard(card: Card, rules: GameRules): boolean {
+  switch (card.number) {
+    case 1:
+    case 8:
+    case 14:
+      return true;
+    case 2:
+      return rules.pickTwo;
+    case 5:
+      return rules.pickThree;
+    default:
+      return false;
+  }
+}
+
+export function countShapes(cards: Card[]): Record<CardShape, number> {
+  const counts: Record<CardShape, number> = { circle: 0, triangle: 0, cross: 0, square: 0, star: 0 };
+  for (const card of cards) {
+    if (card.number !== 20) counts[card.shape]++;
+  }
+  return counts;
+}
+
+/**
+ * Shape to call with a Whot: the one held most, so the next turn is easy to follow.
+ * Ties go to the shape holding the most points, to shed them sooner.
+ */
+export function pickShapeHeldMost(hand: Card[]): CardShape {
+  const counts = countShapes(hand);
+  const points = (shape: CardShape) =>
+    hand.filter(c => c.number !== 20 && c.shape === shape).reduce((sum, c) => sum + penaltyValue(c), 0);
+
+  return SHAPES.reduce((best, shape) => {
+    if (counts[shape] !== counts[best]) return counts[shape] > counts[best] ? shape : best;
+    return points(shape) > points(best) ? shape : best;
+  }, SHAPES[0]);
+}
+
+/**
+ * Default for timeouts: shed the highest-value plain card, keep specials for
+ * when they matter and only play a Whot when nothing else fits.
+ */
+export const sheddingStrategy: AutoPlayStrategy = {
+  name: 'shedding',
+  choose(playable, hand, state) {
+    const rules = state.rules || DEFAULT_RULES;
+    const isLastCard = hand.length === 1;
+
+    const rank = (card: Card): number => {
+      if (isLastCard) return 0;
+      if (card.number === 20) return -1000;
+      // Specials rank below every plain card, then by value among themselves
+      return penaltyValue(card) - (isSpecialCard(card, rules) ? 100 : 0);
+    };
+
+    const card = playable.reduce((best, candidate) => (rank(candidate) > rank(best) ? candidate : best));
+    const rest = hand.filter(c => c.id !== card.id);
+    return { card, selectedShape: card.number === 20 ? pickShapeHeldMost(rest) : null };
+  },
+};
+
+export const DEFAULT_AUTO_PLAY_STRATEGY = sheddingStrategy;
@@ -0,0 +1,222 @@
+/**
+ * Batched game state writes
+ * Wraps any GameStore so rapid moves don't each cost a full state write. A
+ * save is only deferred once its action-log entry is stored: the log is the
+ * journal, so if this instance is recycled before the background flush, the
+ * next read (here or on another instance) rebuilds the missing moves from it.
+ * Saves without a log entry, game starts and ends, and `persistNow` saves are
+ * written straight through. Everything else passes through to the wrapped store.
+ */
+
+import { GameState } from './game-types.ts';
+import { ActionLogEntry } from './action-log.ts';
+import { GameStore } from './game-store.ts';
+
+const BATCH_WINDOW_MS = 5000; // Write at most this often per room
+const FLUSH_INTERVAL_MS = 10000;
+
+interface CachedState {
+  state: GameState;
+  lastWrite: number;
+  pendingWrite: boolean;
+  pendingSince: number; // When the oldest unflushed change was made
+  persistedVersion: number; // Version this instance last saw in the store
+}
+
+export interface SaveOptions {
+  persistNow?: boolean;
+  logEntry?: ActionLogEntry | null; // The move that produced this state, appended to the game's log
+}
+
+// Reported by /health and /admin/flush
+export interface WriteMetrics {
+  cachedRooms: number;
+  pendingWrites: number;
+  oldestPendingMs: number; // 0 when nothing is pending
+  flushedWrites: number;
+  flushConflicts: number; // Another instance saved first; its state (and the log) win
+  flushFailures: number;
+  recoveredMoves: number; // Rebuilt from the log after a deferred write was lost
+}
+
+export interface BatchedGameStore extends GameStore {
+  // Compare-and-swap against the version the caller read; the write itself may be deferred
+  saveGameState(roomCode: string, state: GameState, expectedVersion: number, options?: SaveOptions): Promise<boolean>;
+  metrics(): WriteMetrics;
+  // Write everything pending now
+  flush(): Promise<WriteMetrics>;
+  // Stop the background flush and write everything still pending
+  close(): Promise<void>;
+}
+
+export function createBatchedStore(store: GameStore): BatchedGameStore {
+  const cache = new Map<string, CachedState>();
+  const counters = { flushedWrites: 0, flushConflicts: 0, flushFailures: 0, recoveredMoves: 0 };
+
+  const appendLog = async (roomCode: string, state: GameState, entry: ActionLogEntry) => {
+    try {
+      await store.appendAction(roomCode, state.gameId!, entry);
+    } catch (e: unknown) {
+      // Append-only insert; the move already happened, so failures are logged, never surfaced
+      console.error("Action log insert failed:", { roomCode, seq: entry.seq, error: e instanceof Error ? e.message : e });
+    }
+  };
+
+  const flushRoom = async (roomCode: string, cached: CachedState) => {
+    try {
+      if (!(await store.saveGameState(roomCode, cached.state, cached.persistedVersion))) {
+        // Another instance moved the game on; its state wins and our moves are still in the log
+        console.warn(`Background flush skipped for room ${roomCode}: version conflict`);
+        counters.flushConflicts++;
+        if (cache.get(roomCode) === cached) cache.delete(roomCode);
+        return;
+      }
+
+      counters.flushedWrites++;
+      const current = cache.get(roomCode);
+      if (current === cached) {
+        cache.set(roomCode, {
+          ...cached,
+          lastWrite: Date.now(),
+          pendingWrite: false,
+          persistedVersion: cached.state.version ?? 0
+        });
+      } else if (current?.pendingWrite) {
+        // A newer move was cached while this write was in flight; it now builds on what we wrote
+        current.persistedVersion = cached.state.version ?? 0;
+      }
+    } catch (e: unknown) {
+      counters.flushFailures++;
+      console.error(`Background flush failed for room ${roomCode}:`, e instanceof Error ? e.message : e);
+    }
+  };
+
+  const metrics = (): WriteMetrics => {
+    const now = Date.now();
+    const pending = [...cache.values()].filter(c => c.pendingWrite);
+    return {
+      cachedRooms: cache.size,
+      pendingWrites: pending.length,
+      oldestPendingMs: pending.reduce((oldest, c) => Math.max(oldest, now - c.pendingSince), 0),
+      ...counters,
+    };
+  };
+
+  const flushAll = async (due: (cached: CachedState) => boolean) => {
+    for (const [roomCode, cached] of [...cache.entries()]) {
+      if (cached.pendingWrite && due(cached)) await flushRoom(roomCode, cached);
+    }
+  };
+
+  // Background task to flush pending writes every 10 seconds
+  const flushTimer = setInterval(() => {
+    flushAll(cached => (Date.now() - cached.lastWrite) > FLUSH_INTERVAL_MS);
+  }, FLUSH_INTERVAL_MS);
+
+  return {
+    ...store,
+
+    async getGameState(roomCode) {
+      // Our unflushed state is newer than the store's
+      const cached = cache.get(roomCode);
+      if (cached?.pendingWrite) return structuredClone(cached.state);
+
+      const state = await store.getGameState(roomCode);
+      if (!state?.gameId || state.actionSeq === undefined) return state;
+
+      // Moves logged after the saved state were deferred by an instance that never flushed them
+      const entries = await store.getActions(roomCode, state.gameId, state.actionSeq);
+      if (entries.length === 0) return state;
+
+      const { rollForward } = await import('./action-log.ts');
+      const recovered = rollForward(state, entries);
+      const movesRecovered = (recovered.actionSeq ?? 0) - state.actionSeq;
+      if (movesRecovered === 0) return state;
+
+      // Clients may hold any version the lost instance broadcast, even for moves that couldn't be
+      // rebuilt, so the recovered state is saved as newer than all of them
+      recovered.version = (state.version ?? 0) + entries.length + 1;
+
+      console.warn(`Recovered ${movesRecovered} unflushed move(s) for room ${roomCode} from the action log`);
+      counters.recoveredMoves += movesRecovered;
+      const now = Date.now();
+      cache.set(roomCode, {
+        state: structuredClone(recovered),
+        lastWrite: now,
+        pendingWrite: true,
+        pendingSince: now,
+        persistedVersion: state.version ?? 0
+      });
+      return recovered;
+    },
+
+    async saveGameState(roomCode, state, expectedVersion, { persistNow = false, logEntry = null } = {}) {
+      const now = Date.now();
+      const cached = cache.get(roomCode);
+
+      // While a write is pending the cached state is the newest: check the caller read that one
+      if (cached?.pendingWrite && (cached.state.version ?? 0) !== expectedVersion) {
+        return false;
+      }
+      // The store still holds our last flushed version while a batched write is pending
+      const storedVersion = cached?.pendingWrite ? cached.persistedVersion : expectedVersion;
+
+      // Determine if we can defer the write to the store
+      const timeSinceLastWrite = cached ? (now - cached.lastWrite) : Infinity;
+      const canDefer = !persistNow &&
+                       logEntry !== null &&
+                       state.gameId !== undefined &&
+                       timeSinceLastWrite <= BATCH_WINDOW_MS &&
+                       state.winner === null && // Game ended
+                       state.gameStarted === cached?.state.gameStarted; // Game state changed
+
+      if (canDefer) {
+        // Journal first. A taken seq means another instance logged a move from the same state.
+        try {
+          await store.appendAction(roomCode, state.gameId!, logEntry);
+        } catch (e: unknown) {
+          console.warn(`Deferred save refused for room ${roomCode}:`, e instanceof Error ? e.message : e);
+          cache.delete(roomCode);
+          return false;
+        }
+
+        cache.set(roomCode, {
+          state: structuredClone(state),
+          lastWrite: cached!.lastWrite,
+          pendingWrite: true,
+          pendingSince: cached!.pendingWrite ? cached!.pendingSince : now,
+          persistedVersion: storedVersion
+        });
+        return true;
+      }
+
+      if (!(await store.saveGameState(roomCode, state, storedVersion))) {
+        cache.delete(roomCode);
+        return false;
+      }
+      cache.set(roomCode, {
+        state: structuredClone(state),
+        lastWrite: now,
+        pendingWrite: false,
+        pendingSince: now,
+        persistedVersion: state.version ?? 0
+      });
+
+      // The log waits for the save so a request that loses the version race never logs its move
+      if (logEntry && state.gameId) await appendLog(roomCode, state, logEntry);
+      return true;
+    },
+
+    metrics,
+
+    async flush() {
+      await flushAll(() => true);
+      return metrics();
+    },
+
+    async close() {
+      clearInterval(flushTimer);
+      await flushAll(() => true);
+    },
+  };
+}
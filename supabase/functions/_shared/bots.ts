@@ -0,0 +1,109 @@
+/**
+ * Computer opponents for Naija Whot
+ * Bots pick a regular engine action (play or draw) for their turn, so their
+ * moves are validated, logged and replayed exactly like a human's.
+ *
+ * - Easy: plays any legal card at random (drawn from the game's seeded PRNG,
+ *   so a seeded game plays out the same way every time)
+ * - Medium: the timeout auto-play strategy (sheds high-value cards, saves
+ *   specials and Whot)
+ * - Hard: also tracks played cards, holds Whot cards, saves 2s to counter and
+ *   strikes with Pick Two/Three when the next player is close to winning
+ */
+
+import { BotLevel, Card, CardShape, GameState, DEFAULT_RULES } from './game-types.ts';
+import { createDeck, createSeededRandom, getPlayableCards, applyCardEffect } from './whot-rules.ts';
+import { GameAction } from './game-engine.ts';
+import { sheddingStrategy, penaltyValue, countShapes } from './auto-play-strategy.ts';
+
+const SHAPES: CardShape[] = ['circle', 'triangle', 'cross', 'square', 'star'];
+
+export function chooseBotAction(
+  state: GameState,
+  playerId: string,
+  level: BotLevel,
+  timestamp: number,
+  // Seeded from where the game's PRNG stands, so the same table always gets the same choice
+  random: () => number = createSeededRandom(state.rngState ?? state.seed ?? 0).next
+): GameAction {
+  const hand = state.playerHands[playerId] || [];
+  const draw: GameAction = { type: 'draw', playerId, timestamp };
+
+  // Market owed (General Market) or nothing to play: go to market
+  if (state.effectActive === 'general_market' || !state.currentCard) return draw;
+  const playable = getPlayableCards(hand, state, playerId);
+  if (playable.length === 0) return draw;
+
+  let card: Card;
+  let selectedShape: CardShape | null = null;
+
+  if (level === 'easy') {
+    card = playable[Math.floor(random() * playable.length)];
+    if (card.number === 20) selectedShape = SHAPES[Math.floor(random() * SHAPES.length)];
+  } else if (level === 'medium') {
+    ({ card, selectedShape } = sheddingStrategy.choose(playable, hand, state, random));
+  } else {
+    card = playable.reduce((best, candidate) =>
+      scoreHard(candidate, state, playerId) > scoreHard(best, state, playerId) ? candidate : best
+    );
+    if (card.number === 20) {
+      selectedShape = pickShapeHard(hand.filter(c => c.id !== card.id), state, playerId);
+    }
+  }
+
+  // Bots never forget to call last card
+  return { type: 'play', playerId, card, selectedShape, ...(hand.length === 2 ? { declareLastCard: true } : {}), timestamp };
+}
+
+function scoreHard(card: Card, state: GameState, playerId: string): number {
+  const hand = state.playerHands[playerId] || [];
+  const rest = hand.filter(c => c.id !== card.id);
+  const rules = state.rules || DEFAULT_RULES;
+  const myIndex = state.players.findIndex(p => p.id === playerId);
+  const nextPlayer = state.players[(myIndex + state.direction + state.players.length) % state.players.length];
+  const nextIsClose = (nextPlayer?.cardCount ?? Infinity) <= 2;
+
+  let score = penaltyValue(card);
+
+  // Keep options open: cards left in hand that could follow this one
+  score += rest.filter(c => c.shape === card.shape || c.number === card.number || c.number === 20).length * 3;
+
+  // Simulate the effect: is the turn still ours afterwards (Hold On, General Market, Suspension heads-up)?
+  const simulated = applyCardEffect({ ...state, playerHands: { ...state.playerHands, [playerId]: rest } }, card, playerId);
+  const keepsTurn = simulated.currentPlayerIndex === myIndex || simulated.effectActive === 'general_market';
+  if (keepsTurn && rest.length > 0) score += 15;
+
+  // Hold Whot cards until the hand is nearly empty
+  if (card.number === 20) score -= rest.length > 1 ? 60 : 0;
+
+  // Pick Two/Three: strike when the next player is about to win, otherwise save them to counter
+  const isPickCard = (card.number === 2 && rules.pickTwo) || (card.number === 5 && rules.pickThree);
+  if (isPickCard) {
+    const defending = state.effectActive === 'pick_two' || state.effectActive === 'pick_three';
+    if (defending || nextIsClose) score += 25;
+    else if (rules.defendPick && rest.length > 2) score -= 12;
+  }
+
+  // Prefer shapes opponents are unlikely to match: few unseen cards left in that shape
+  if (card.number !== 20) score -= unseenCards(state, playerId).filter(c => c.shape === card.shape).length;
+
+  return score;
+}
+
+// Most-held shape, tie-broken by the shape opponents are least likely to hold
+function pickShapeHard(hand: Card[], state: GameState, playerId: string): CardShape {
+  const counts = countShapes(hand);
+  const unseen = countShapes(unseenCards(state, playerId));
+  return SHAPES.reduce((best, shape) => {
+    if (counts[shape] !== counts[best]) return counts[shape] > counts[best] ? shape : best;
+    return unseen[shape] < unseen[best] ? shape : best;
+  }, SHAPES[0]);
+}
+
+// Card tracking: everything not yet played and not in our own hand
+function unseenCards(state: GameState, playerId: string): Card[] {
+  const seen = new Set<string>();
+  for (const card of state.discardPile) seen.add(`${card.shape}-${card.number}`);
+  for (const card of state.playerHands[playerId] || []) seen.add(`${card.shape}-${card.number}`);
+  return createDeck().filter(c => c.number !== 20 && !seen.has(`${c.shape}-${c.number}`));
+}
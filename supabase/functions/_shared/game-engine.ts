@@ -0,0 +1,578 @@
+/**
+ * Game engine for Naija Whot
+ * A single pure reducer that owns every state transition. Routes load the
+ * state, call `reduce(state, action)` and then persist/broadcast the result,
+ * so every rule path can be exercised without Supabase.
+ */
+
+import { Card, CardShape, GameState, GameRules, RoundEndReason, DEFAULT_RULES, TURN_TIME_LIMITS, MATCH_TARGETS, REVERSE_CARDS, LAST_CARD_PENALTIES, HAND_SIZES } from './game-types.ts';
+import {
+  shuffleDeck,
+  createSeededRandom,
+  generateSeed,
+  isFacingPick,
+  playRejection,
+  getPlayableCards,
+  applyCardEffect,
+  calculateScore,
+  playersInTurnOrder,
+  pickPenalty,
+} from './whot-rules.ts';
+import { AutoPlayStrategy, DEFAULT_AUTO_PLAY_STRATEGY } from './auto-play-strategy.ts';
+import { scoreMatchRound, leaveMatch } from './match.ts';
+
+export type GameAction =
+  | { type: 'play'; playerId: string; card: Pick<Card, 'id'>; selectedShape?: CardShape | null; declareLastCard?: boolean; timestamp: number }
+  | { type: 'draw'; playerId: string; timestamp: number }
+  | { type: 'auto_play'; playerId: string; timestamp: number }
+  | { type: 'forfeit'; playerId: string; timestamp: number }
+  | { type: 'declare_last_card'; playerId: string }
+  | { type: 'challenge_last_card'; playerId: string; targetId: string }
+  | { type: 'ready'; playerId: string }
+  | { type: 'update_rules'; playerId: string; rules: Partial<GameRules> };
+
+export type GameEvent =
+  | { type: 'card_played'; playerId: string; card: Card; selectedShape: CardShape | null; auto: boolean }
+  | { type: 'cards_drawn'; playerId: string; cards: Card[]; auto: boolean }
+  | { type: 'last_card_called'; playerId: string }
+  // `cards` went to the target if caught, otherwise to the challenger
+  | { type: 'last_card_challenged'; playerId: string; challengerId: string; caught: boolean; cards: Card[] }
+  | { type: 'market_refilled'; count: number }
+  | { type: 'market_cleared'; initiatorId: string }
+  | { type: 'game_won'; playerId: string; scores: Record<string, number>; reason: RoundEndReason }
+  | { type: 'match_round_scored'; round: number; totals: Record<string, number>; knockedOut: string[]; matchWinner: string | null }
+  | { type: 'player_ready'; playerId: string }
+  | { type: 'rules_updated'; playerId: string; rules: GameRules }
+  | { type: 'auto_play_skipped'; playerId: string; reason: string }
+  | { type: 'player_forfeited'; playerId: string; returnedCards: number };
+
+export interface ReduceResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export interface ReduceOptions {
+  // Move picked for `auto_play`; replays must use the same strategy the game did
+  autoPlayStrategy?: AutoPlayStrategy;
+}
+
+// Rejected action. `status` mirrors the HTTP status the routes should answer with.
+export class GameRuleError extends Error {
+  readonly status: 400 | 404;
+
+  constructor(message: string, status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'GameRuleError';
+    this.status = status;
+  }
+}
+
+export function reduce(state: GameState, action: GameAction, options: ReduceOptions = {}): ReduceResult {
+  const events: GameEvent[] = [];
+  // Never mutate the caller's state
+  const draft = structuredClone(state);
+  // Resume the game's PRNG so reshuffles replay identically (legacy games get a fresh seed)
+  const rng = createSeededRandom(draft.rngState ?? draft.seed ?? generateSeed());
+  const random = rng.next;
+
+  let next: GameState;
+  switch (action.type) {
+    case 'play':
+      next = playCard(draft, action, events);
+      break;
+    case 'draw':
+      next = drawForTurn(draft, action.playerId, action.timestamp, random, events);
+      break;
+    case 'auto_play':
+      next = autoPlay(draft, action.playerId, action.timestamp, options.autoPlayStrategy ?? DEFAULT_AUTO_PLAY_STRATEGY, random, events);
+      break;
+    case 'forfeit':
+      next = forfeit(draft, action.playerId, action.timestamp, events);
+      break;
+    case 'declare_last_card':
+      next = declareLastCard(draft, action.playerId, events);
+      break;
+    case 'challenge_last_card':
+      next = challengeLastCard(draft, action.playerId, action.targetId, random, events);
+      break;
+    case 'ready':
+      next = markReady(draft, action.playerId, events);
+      break;
+    case 'update_rules':
+      next = updateRules(draft, action.playerId, action.rules, events);
+      break;
+  }
+
+  next.rngState = rng.state();
+  return { state: next, events };
+}
+
+/**
+ * Cards the current player must draw right now (penalty or a single market card)
+ */
+export function getDrawCount(state: GameState): number {
+  if (state.effectActive === 'pick_two' || state.effectActive === 'pick_three') return pickPenalty(state);
+  return 1;
+}
+
+function playCard(state: GameState, action: Extract<GameAction, { type: 'play' }>, events: GameEvent[]): GameState {
+  if (state.winner) throw new GameRuleError('Game is over');
+
+  const playerIndex = state.players.findIndex(p => p.id === action.playerId);
+  if (playerIndex === -1) throw new GameRuleError('Player not found', 404);
+  if (playerIndex !== state.currentPlayerIndex) throw new GameRuleError('Not your turn');
+
+  const hand = state.playerHands[action.playerId] || [];
+  const card = hand.find(c => c.id === action.card.id);
+  if (!card) throw new GameRuleError('Card not in hand');
+
+  // Same check the controller uses to grey out cards
+  const rejection = playRejection(card, state, action.playerId);
+  if (rejection) throw new GameRuleError(rejection);
+
+  clearReturnedPick(state, action.playerId);
+
+  return commitPlay(state, playerIndex, card, action.selectedShape ?? null, action.timestamp, false, events, action.declareLastCard);
+}
+
+// A pick that cycled back to its initiator (or a legacy game's) is cleared to prevent a stuck state
+function clearReturnedPick(state: GameState, playerId: string) {
+  if (state.effectActive !== 'pick_two' && state.effectActive !== 'pick_three') return;
+  if (isFacingPick(state, playerId)) return;
+  state.effectActive = null;
+  state.pickTwoChain = 0;
+  state.pickThreeChain = 0;
+  state.pickEffectInitiator = undefined;
+}
+
+function commitPlay(
+  state: GameState,
+  playerIndex: number,
+  card: Card,
+  selectedShape: CardShape | null,
+  timestamp: number,
+  auto: boolean,
+  events: GameEvent[],
+  declaredLastCard = false
+): GameState {
+  const player = state.players[playerIndex];
+  const rules = state.rules || DEFAULT_RULES;
+  // Auto-played turns call last card for the player
+  const calledLastCard = declaredLastCard || auto || state.lastCardCalled === player.id;
+  if (state.lastCardCalled === player.id) state.lastCardCalled = undefined;
+  clearUncalledLastCard(state, player.id);
+
+  state.playerHands[player.id] = (state.playerHands[player.id] || []).filter(c => c.id !== card.id);
+  player.cardCount = state.playerHands[player.id].length;
+
+  state.currentCard = card;
+  state.discardPile.push(card);
+  state.selectedShape = selectedShape;
+
+  // Lock rules after first card is played
+  state.rulesLocked = true;
+  state.totalTurns = (state.totalTurns || 0) + 1;
+
+  // Apply Effects & Next Turn
+  const next = applyCardEffect(state, card, player.id);
+  next.turnStartTime = timestamp;
+
+  // GENERAL MARKET: Initialize Manual Queue
+  if (next.effectActive === 'general_market') {
+    next.marketDue = playersInTurnOrder(next, playerIndex);
+    next.generalMarketInitiator = player.id;
+
+    if (next.marketDue.length > 0) {
+      const firstVictimIndex = next.players.findIndex(p => p.id === next.marketDue![0]);
+      if (firstVictimIndex !== -1) next.currentPlayerIndex = firstVictimIndex;
+      next.lastAction = `${player.name} played General Market!`;
+    } else {
+      // No opponents? Should not happen in MP, but reset if so
+      next.effectActive = null;
+    }
+  }
+
+  events.push({ type: 'card_played', playerId: player.id, card, selectedShape, auto });
+
+  const remainingCards = next.playerHands[player.id].length;
+
+  if (remainingCards === 0) {
+    if (card.number === 1 && !rules.winWithHoldOn) {
+      // Hold On keeps the turn with them; with no cards left they'll have to draw
+      next.lastAction = auto
+        ? `⏱️ ${player.name} timed out - auto-played Hold On but can't win with it!`
+        : `${player.name} played HOLD ON but can't win with it!`;
+    } else {
+      // Keep gameStarted = true even after win (needed for rematch flow)
+      next.winner = player.id;
+      next.sessionWins = { ...next.sessionWins, [player.id]: (next.sessionWins?.[player.id] || 0) + 1 };
+
+      const scores: Record<string, number> = {};
+      for (const p of next.players) {
+        scores[p.id] = calculateScore(next.playerHands[p.id] || []);
+      }
+      next.roundResult = { reason: 'cards_out', scores };
+      next.lastAction = auto
+        ? `⏱️ ${player.name} timed out but auto-played to WIN!`
+        : `Final Scores: ${next.players.map(p => `${p.name}: ${scores[p.id]}`).join(', ')}`;
+
+      events.push({ type: 'game_won', playerId: player.id, scores, reason: 'cards_out' });
+      endMatchRound(next, player.id, events);
+    }
+  } else if (auto) {
+    next.lastAction = `⏱️ ${player.name} timed out - auto-played ${card.shape} ${card.number}`;
+  } else if (remainingCards === 1 && rules.lastCardPenalty > 0 && !calledLastCard) {
+    // Didn't call it (house rule): nothing announced, so opponents have to notice and challenge
+    next.uncalledLastCard = [...(next.uncalledLastCard || []), player.id];
+  } else if (remainingCards === 1) {
+    next.lastAction = `${player.name} is on last card!`;
+  } else if (remainingCards === 2) {
+    next.lastAction = `Warning, ${player.name} has two cards left!`;
+  }
+
+  return next;
+}
+
+function drawForTurn(
+  state: GameState,
+  playerId: string,
+  timestamp: number,
+  random: () => number,
+  events: GameEvent[]
+): GameState {
+  if (state.winner) throw new GameRuleError('Game is over');
+
+  const playerIndex = state.players.findIndex(p => p.id === playerId);
+  if (playerIndex !== state.currentPlayerIndex) throw new GameRuleError('Not your turn');
+
+  return commitDraw(state, playerIndex, getDrawCount(state), timestamp, false, random, events);
+}
+
+function commitDraw(
+  state: GameState,
+  playerIndex: number,
+  count: number,
+  timestamp: number,
+  auto: boolean,
+  random: () => number,
+  events: GameEvent[]
+): GameState {
+  const player = state.players[playerIndex];
+  const drawnCards = takeFromMarket(state, count, random, events);
+  // Back above one card: a call or a missed call no longer counts
+  if (state.lastCardCalled === player.id) state.lastCardCalled = undefined;
+  clearUncalledLastCard(state, player.id);
+
+  state.playerHands[player.id] = [...(state.playerHands[player.id] || []), ...drawnCards];
+  player.cardCount = state.playerHands[player.id].length;
+
+  if (state.effectActive === 'general_market') {
+    // Remove from pending list, then hand the turn to the next victim (or back to the initiator)
+    state.marketDue = state.marketDue?.filter(id => id !== player.id) || [];
+
+    if (state.marketDue.length === 0) {
+      const initiatorId = state.generalMarketInitiator;
+      const initiatorIndex = state.players.findIndex(p => p.id === initiatorId);
+      if (initiatorIndex !== -1) state.currentPlayerIndex = initiatorIndex;
+      state.effectActive = null;
+      state.generalMarketInitiator = undefined;
+      if (initiatorId) events.push({ type: 'market_cleared', initiatorId });
+    } else {
+      const nextIndex = state.players.findIndex(p => p.id === state.marketDue![0]);
+      if (nextIndex !== -1) state.currentPlayerIndex = nextIndex;
+      state.lastAction = `${player.name} drew. Waiting for ${state.players[state.currentPlayerIndex].name}`;
+    }
+  } else {
+    // Standard Draw or Penalty Draw - clear penalties and pass the turn
+    state.effectActive = null;
+    state.pickTwoChain = 0;
+    state.pickThreeChain = 0;
+    state.pickEffectInitiator = undefined;
+    state.currentPlayerIndex = (state.currentPlayerIndex + state.direction + state.players.length) % state.players.length;
+  }
+
+  state.deckCount = state.marketPile.length;
+  if (auto) {
+    state.lastAction = `⏱️ ${player.name} timed out - auto-drew ${drawnCards.length} card${drawnCards.length === 1 ? '' : 's'}`;
+  } else if (!state.effectActive) {
+    state.lastAction = `${player.name} picked ${drawnCards.length} cards`;
+  }
+  state.turnStartTime = timestamp;
+
+  events.push({ type: 'cards_drawn', playerId: player.id, cards: drawnCards, auto });
+
+  // Market finished: nobody can draw again, so the round ends on a count
+  if (isMarketExhausted(state)) checkUp(state, events);
+  return state;
+}
+
+// Draw from the market, reshuffling the discard pile (minus the top card) when it runs dry
+function takeFromMarket(state: GameState, count: number, random: () => number, events: GameEvent[]): Card[] {
+  const drawn: Card[] = [];
+  for (let i = 0; i < count; i++) {
+    if (state.marketPile.length === 0) {
+      if (state.discardPile.length <= 1) break; // Truly empty
+
+      const topCard = state.discardPile.pop()!;
+      state.marketPile = shuffleDeck(state.discardPile, random);
+      state.discardPile = [topCard];
+      events.push({ type: 'market_refilled', count: state.marketPile.length });
+    }
+    drawn.push(state.marketPile.shift()!);
+  }
+  return drawn;
+}
+
+// Nothing left to draw: the market is empty and only the card in play is on the discard pile
+function isMarketExhausted(state: GameState): boolean {
+  return state.marketPile.length === 0 && state.discardPile.length <= 1;
+}
+
+/**
+ * "Check up": the market has run out with nothing under the top card to
+ * reshuffle into it, so every hand is counted with calculateScore (stars
+ * double) and the lowest total wins. Ties go to the player holding fewer
+ * cards, then to seating order.
+ */
+function checkUp(state: GameState, events: GameEvent[]) {
+  const scores: Record<string, number> = {};
+  for (const p of state.players) {
+    scores[p.id] = calculateScore(state.playerHands[p.id] || []);
+  }
+  const winner = state.players.reduce((best, p) =>
+    scores[p.id] < scores[best.id] || (scores[p.id] === scores[best.id] && p.cardCount < best.cardCount) ? p : best
+  );
+
+  state.winner = winner.id;
+  state.sessionWins = { ...state.sessionWins, [winner.id]: (state.sessionWins?.[winner.id] || 0) + 1 };
+  state.effectActive = null;
+  state.pickTwoChain = 0;
+  state.pickThreeChain = 0;
+  state.pickEffectInitiator = undefined;
+  state.marketDue = [];
+  state.generalMarketInitiator = undefined;
+  state.roundResult = { reason: 'check_up', scores };
+  state.lastAction = `Market finished - check up! ${state.players.map(p => `${p.name}: ${scores[p.id]}`).join(', ')}. ${winner.name} wins!`;
+
+  events.push({ type: 'game_won', playerId: winner.id, scores, reason: 'check_up' });
+  endMatchRound(state, winner.id, events);
+}
+
+function autoPlay(
+  state: GameState,
+  playerId: string,
+  timestamp: number,
+  strategy: AutoPlayStrategy,
+  random: () => number,
+  events: GameEvent[]
+): GameState {
+  // Graceful no-ops: the turn already moved on, which is expected in race conditions
+  if (state.winner) {
+    events.push({ type: 'auto_play_skipped', playerId, reason: 'Game already ended' });
+    return state;
+  }
+  const playerIndex = state.players.findIndex(p => p.id === playerId);
+  if (playerIndex !== state.currentPlayerIndex) {
+    events.push({ type: 'auto_play_skipped', playerId, reason: 'Turn already passed' });
+    return state;
+  }
+
+  // Market due - must draw
+  if (state.effectActive === 'general_market') {
+    return commitDraw(state, playerIndex, getDrawCount(state), timestamp, true, random, events);
+  }
+
+  const hand = state.playerHands[playerId] || [];
+  const playableCards = getPlayableCards(hand, state, playerId);
+  if (playableCards.length === 0) {
+    return commitDraw(state, playerIndex, getDrawCount(state), timestamp, true, random, events);
+  }
+
+  clearReturnedPick(state, playerId);
+  const { card, selectedShape } = strategy.choose(playableCards, hand, state, random);
+  return commitPlay(state, playerIndex, card, selectedShape, timestamp, true, events);
+}
+
+/**
+ * Remove a player from the game in progress. Their hand goes to the bottom of
+ * the market, so no card leaves the game; the last player left wins.
+ */
+function forfeit(state: GameState, playerId: string, timestamp: number, events: GameEvent[]): GameState {
+  if (state.winner) throw new GameRuleError('Game is over');
+  const playerIndex = state.players.findIndex(p => p.id === playerId);
+  if (playerIndex === -1) throw new GameRuleError('Player not found', 404);
+
+  const [player] = state.players.splice(playerIndex, 1);
+  const hand = state.playerHands[playerId] || [];
+  delete state.playerHands[playerId];
+  state.marketPile.push(...hand);
+  state.deckCount = state.marketPile.length;
+
+  // Keep the turn pointer on the same player, or hand the turn on if it was theirs
+  const count = state.players.length;
+  if (playerIndex < state.currentPlayerIndex) {
+    state.currentPlayerIndex--;
+  } else if (playerIndex === state.currentPlayerIndex) {
+    const nextIndex = state.direction === 1 ? playerIndex : playerIndex - 1;
+    state.currentPlayerIndex = (nextIndex + count) % count;
+    // A penalty owed by the leaving player goes with them
+    if (state.effectActive === 'pick_two' || state.effectActive === 'pick_three') {
+      state.effectActive = null;
+      state.pickTwoChain = 0;
+      state.pickThreeChain = 0;
+      state.pickEffectInitiator = undefined;
+    }
+    state.turnStartTime = timestamp;
+  }
+  if (state.pickEffectInitiator === playerId) state.pickEffectInitiator = undefined;
+  if (state.lastCardCalled === playerId) state.lastCardCalled = undefined;
+  clearUncalledLastCard(state, playerId);
+  leaveMatch(state, playerId);
+
+  // General Market: they no longer owe a card, and can't be waited on as initiator
+  if (state.effectActive === 'general_market') {
+    state.marketDue = state.marketDue?.filter(id => id !== playerId) || [];
+    if (state.generalMarketInitiator === playerId) state.generalMarketInitiator = undefined;
+    if (state.marketDue.length === 0) {
+      const initiatorIndex = state.players.findIndex(p => p.id === state.generalMarketInitiator);
+      if (initiatorIndex !== -1) state.currentPlayerIndex = initiatorIndex;
+      state.effectActive = null;
+      state.generalMarketInitiator = undefined;
+    } else {
+      const nextIndex = state.players.findIndex(p => p.id === state.marketDue![0]);
+      if (nextIndex !== -1) state.currentPlayerIndex = nextIndex;
+    }
+  }
+
+  state.lastAction = `${player.name} left the game`;
+  events.push({ type: 'player_forfeited', playerId, returnedCards: hand.length });
+
+  if (count === 1) {
+    const survivor = state.players[0];
+    state.currentPlayerIndex = 0;
+    state.winner = survivor.id;
+    state.sessionWins = { ...state.sessionWins, [survivor.id]: (state.sessionWins?.[survivor.id] || 0) + 1 };
+    const scores = { [survivor.id]: calculateScore(state.playerHands[survivor.id] || []) };
+    state.roundResult = { reason: 'forfeit', scores };
+    state.lastAction = `${player.name} left the game - ${survivor.name} wins!`;
+    events.push({ type: 'game_won', playerId: survivor.id, scores, reason: 'forfeit' });
+    endMatchRound(state, survivor.id, events);
+  }
+
+  return state;
+}
+
+// In a match, add the round's penalties and say who went out (or who took the match)
+function endMatchRound(state: GameState, winnerId: string, events: GameEvent[]) {
+  const match = state.match;
+  if (!match) return;
+
+  const knockedOut = scoreMatchRound(state, winnerId);
+  const nameOf = (id: string) => match.names[id] ?? id;
+  if (match.winner) {
+    state.lastAction = `${state.lastAction} - ${nameOf(match.winner)} wins the match!`;
+  } else if (knockedOut.length > 0) {
+    state.lastAction = `${state.lastAction} - ${knockedOut.map(nameOf).join(' and ')} out of the match`;
+  }
+  events.push({ type: 'match_round_scored', round: match.round, totals: { ...match.scores }, knockedOut, matchWinner: match.winner });
+}
+
+/**
+ * "Last card!" (house rule): called while holding two cards, before or with
+ * the play that leaves one. A player who gets down to one card without
+ * calling it can be challenged into a penalty pick. Who forgot is never sent
+ * to clients, so challenges are blind: a wrong one costs the challenger.
+ */
+function declareLastCard(state: GameState, playerId: string, events: GameEvent[]): GameState {
+  if (state.winner) throw new GameRuleError('Game is over');
+  const rules = state.rules || DEFAULT_RULES;
+  if (!(rules.lastCardPenalty > 0)) throw new GameRuleError('Last card calls are not in play');
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) throw new GameRuleError('Player not found', 404);
+  if ((state.playerHands[playerId] || []).length !== 2) {
+    throw new GameRuleError('Last card is called while holding two cards');
+  }
+
+  state.lastCardCalled = playerId;
+  state.lastAction = `${player.name} calls LAST CARD!`;
+  events.push({ type: 'last_card_called', playerId });
+  return state;
+}
+
+function challengeLastCard(state: GameState, challengerId: string, targetId: string, random: () => number, events: GameEvent[]): GameState {
+  if (state.winner) throw new GameRuleError('Game is over');
+  const rules = state.rules || DEFAULT_RULES;
+  if (!(rules.lastCardPenalty > 0)) throw new GameRuleError('Last card calls are not in play');
+  const challenger = state.players.find(p => p.id === challengerId);
+  const target = state.players.find(p => p.id === targetId);
+  if (!challenger || !target) throw new GameRuleError('Player not found', 404);
+  if (challengerId === targetId) throw new GameRuleError("You can't challenge yourself");
+
+  const caught = state.uncalledLastCard?.includes(targetId) ?? false;
+  const penalised = caught ? target : challenger;
+  clearUncalledLastCard(state, targetId);
+  const penalty = takeFromMarket(state, rules.lastCardPenalty, random, events);
+  state.playerHands[penalised.id] = [...(state.playerHands[penalised.id] || []), ...penalty];
+  penalised.cardCount = state.playerHands[penalised.id].length;
+  // Back above one card: a missed call of their own no longer counts
+  if (!caught) clearUncalledLastCard(state, challengerId);
+  state.deckCount = state.marketPile.length;
+  state.lastAction = caught
+    ? `${challenger.name} caught ${target.name}! ${target.name} picks ${penalty.length}`
+    : `${challenger.name} challenged ${target.name} for nothing! ${challenger.name} picks ${penalty.length}`;
+  events.push({ type: 'last_card_challenged', playerId: targetId, challengerId, caught, cards: penalty });
+
+  if (isMarketExhausted(state)) checkUp(state, events);
+  return state;
+}
+
+function clearUncalledLastCard(state: GameState, playerId: string) {
+  if (!state.uncalledLastCard?.includes(playerId)) return;
+  state.uncalledLastCard = state.uncalledLastCard.filter(id => id !== playerId);
+}
+
+function markReady(state: GameState, playerId: string, events: GameEvent[]): GameState {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return state;
+
+  player.isReady = true;
+  events.push({ type: 'player_ready', playerId });
+  return state;
+}
+
+function updateRules(state: GameState, playerId: string, rules: Partial<GameRules>, events: GameEvent[]): GameState {
+  if (state.rulesLocked) throw new GameRuleError('Rules are locked after first card is played');
+  validateRules(rules);
+
+  state.rules = { ...state.rules, ...rules };
+  events.push({ type: 'rules_updated', playerId, rules: state.rules });
+  return state;
+}
+
+/**
+ * Reject rule sets the engine can't play: unknown rules, non-boolean
+ * switches and values outside the options on offer
+ */
+export function validateRules(rules: Partial<GameRules>) {
+  for (const [key, value] of Object.entries(rules)) {
+    if (!(key in DEFAULT_RULES)) throw new GameRuleError(`Unknown rule: ${key}`);
+    if (typeof DEFAULT_RULES[key as keyof GameRules] === 'boolean' && typeof value !== 'boolean') {
+      throw new GameRuleError(`Invalid rule ${key}: expected true or false`);
+    }
+  }
+  if (rules.turnTimeLimit !== undefined && !(TURN_TIME_LIMITS as readonly number[]).includes(rules.turnTimeLimit)) {
+    throw new GameRuleError(`Invalid turn time limit: expected one of ${TURN_TIME_LIMITS.join(', ')} seconds`);
+  }
+  if (rules.matchTarget !== undefined && !(MATCH_TARGETS as readonly number[]).includes(rules.matchTarget)) {
+    throw new GameRuleError(`Invalid match target: expected one of ${MATCH_TARGETS.join(', ')} points`);
+  }
+  if (rules.reverseCard !== undefined && !(REVERSE_CARDS as readonly number[]).includes(rules.reverseCard)) {
+    throw new GameRuleError(`Invalid reverse card: expected one of ${REVERSE_CARDS.join(', ')}`);
+  }
+  if (rules.lastCardPenalty !== undefined && !(LAST_CARD_PENALTIES as readonly number[]).includes(rules.lastCardPenalty)) {
+    throw new GameRuleError(`Invalid last card penalty: expected one of ${LAST_CARD_PENALTIES.join(', ')} cards`);
+  }
+  if (rules.handSize !== undefined && !(HAND_SIZES as readonly number[]).includes(rules.handSize)) {
+    throw new GameRuleError(`Invalid hand size: expected one of ${HAND_SIZES.join(', ')} cards`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Game store for Naija Whot
+ * Everything the game server keeps between requests: rooms and their lobby,
+ * the game state, claimed seats, the replay log, saved rule presets and
+ * analytics. The server only talks to storage through this interface, so the
+ * same routes run on Postgres in production and in memory when run locally.
+ */
+
+import { GameState, LobbyPlayer, LobbyState, RulePreset } from './game-types.ts';
+import { ActionLogEntry } from './action-log.ts';
+
+// One analytics row per player event ('join', 'play_card', 'draw', 'win', ...)
+export interface PlayerEvent {
+  roomCode: string;
+  playerId: string;
+  playerName: string;
+  eventType: string;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface GameStore {
+  getGameState(roomCode: string): Promise<GameState | null>;
+  // Compare-and-swap: only writes if the stored version is still `expectedVersion` (0 for a room never saved)
+  saveGameState(roomCode: string, state: GameState, expectedVersion: number): Promise<boolean>;
+
+  // Claims the code for a new lobby; false if the room is still in use. Rooms with no
+  // save or lobby change for longer than `staleAfterMs` are recycled along with their seats. `seatSecret` is
+  // kept on the room and signs its seat tokens.
+  createRoom(roomCode: string, lobby: LobbyState, seatSecret: string, staleAfterMs: number): Promise<boolean>;
+  // Null for rooms that were never created through createRoom
+  getSeatSecret(roomCode: string): Promise<string | null>;
+  getLobby(roomCode: string): Promise<LobbyState | null>;
+  // Rejoining with the same id is a no-op. Throws 'Room not found', 'Room is full',
+  // 'Name already taken' or 'You were removed from this room'.
+  joinLobby(roomCode: string, player: LobbyPlayer): Promise<LobbyState>;
+  // Leave or kick; kicked ids may not rejoin. Throws 'Room not found'.
+  removeFromLobby(roomCode: string, playerId: string, kick: boolean): Promise<LobbyState>;
+
+  // False if someone already holds this seat
+  claimSeat(roomCode: string, playerId: string): Promise<boolean>;
+  releaseSeat(roomCode: string, playerId: string): Promise<void>;
+
+  // Throws if the game already has an entry with this seq
+  appendAction(roomCode: string, gameId: string, entry: ActionLogEntry): Promise<void>;
+  // In sequence order; only entries after `afterSeq` when given
+  getActions(roomCode: string, gameId: string, afterSeq?: number): Promise<ActionLogEntry[]>;
+
+  // False if the code is already taken
+  insertPreset(preset: RulePreset): Promise<boolean>;
+  getPreset(code: string): Promise<RulePreset | null>;
+
+  // Analytics: the room's open session (created if needed), its updates and player events
+  openSession(roomCode: string): Promise<void>;
+  updateSession(roomCode: string, updates: Record<string, unknown>): Promise<void>;
+  logPlayerEvent(event: PlayerEvent): Promise<void>;
+}
+
+// Lobby rules for stores without the Postgres RPCs; both mutate `lobby` in place
+export function addLobbyPlayer(lobby: LobbyState, player: LobbyPlayer) {
+  if (lobby.kickedIds.includes(player.id)) throw new Error('You were removed from this room');
+  if (lobby.players.some(p => p.id === player.id)) return;
+  if (lobby.players.some(p => p.name.toLowerCase() === player.name.toLowerCase())) throw new Error('Name already taken');
+  if (lobby.players.length >= lobby.maxPlayers) throw new Error('Room is full');
+  lobby.players.push(player);
+}
+
+export function removeLobbyPlayer(lobby: LobbyState, playerId: string, kick: boolean) {
+  lobby.players = lobby.players.filter(p => p.id !== playerId);
+  if (kick) lobby.kickedIds.push(playerId);
+}
@@ -1,6 +1,7 @@
 /**
  * Shared types for Naija Whot
- * These types are mirrored from src/types/game.ts to be available in Edge Functions (Deno)
+ * The single source for the Edge Functions (Deno) and the web app, which
+ * re-exports them from src/types/game.ts
  */
 
 export type CardShape = 'circle' | 'square' | 'triangle' | 'star' | 'cross';
@@ -12,14 +13,53 @@ export interface GameRules {
   pickThree: boolean;      // Card 5 forces next player to pick 3 (default: false)
   defendPick: boolean;     // Can counter Pick 2/3 with another Pick 2/3 (default: false)
   winWithHoldOn: boolean;  // Can win by playing Hold On (1) as last card (default: false)
+  turnTimeLimit: TurnTimeLimit; // Seconds per turn before the server plays it; 0 = no limit (default: 60)
+  matchTarget: MatchTarget; // Penalty points that knock a player out of a match; 0 = single games (default: 0)
+  reverseCard: ReverseCard; // Card number that reverses the direction of play; 0 = off (default: 0)
+  starEightSkipsTwo: boolean; // Star 8 suspends the next two players instead of one (default: false)
+  whotBlocksPick: boolean; // Whot (20) cancels a Pick Two/Three instead of drawing (default: false)
+  crossStack: boolean;     // With Defend Pick, a 2 can answer a 5 and a 5 a 2 (default: false)
+  lastCardPenalty: LastCardPenalty; // Cards drawn for going down to one card without calling it; 0 = off (default: 0)
+  handSize: HandSize;      // Cards dealt to each player (default: 6)
 }
 
+// Turn lengths on offer: off, blitz, quick, standard, relaxed
+export const TURN_TIME_LIMITS = [0, 15, 30, 60, 120] as const;
+export type TurnTimeLimit = typeof TURN_TIME_LIMITS[number];
+
+// Match targets on offer (0 plays single games)
+export const MATCH_TARGETS = [0, 100, 150, 200] as const;
+export type MatchTarget = typeof MATCH_TARGETS[number];
+
+// Numbers that can be made the reverse card (0 = off); only cards without an effect of their own
+export const REVERSE_CARDS = [0, 3, 4, 7, 10, 11, 12, 13] as const;
+export type ReverseCard = typeof REVERSE_CARDS[number];
+
+// Penalty for not calling "last card" (0 = no need to call it)
+export const LAST_CARD_PENALTIES = [0, 1, 2, 3] as const;
+export type LastCardPenalty = typeof LAST_CARD_PENALTIES[number];
+
+// Deal sizes on offer
+export const HAND_SIZES = [4, 5, 6, 7, 8] as const;
+export type HandSize = typeof HAND_SIZES[number];
+
+// Most cards that can be dealt out: 8 players x 6 still leaves a start card and a market
+export const MAX_DEALT_CARDS = 48;
+
 // Default rules configuration
 export const DEFAULT_RULES: GameRules = {
   pickTwo: true,
   pickThree: false,
   defendPick: false,
   winWithHoldOn: false,
+  turnTimeLimit: 60,
+  matchTarget: 0,
+  reverseCard: 0,
+  starEightSkipsTwo: false,
+  whotBlocksPick: false,
+  crossStack: false,
+  lastCardPenalty: 0,
+  handSize: 6,
 };
 
 export interface Card {
@@ -28,6 +68,9 @@ export interface Card {
   number: CardNumber;
 }
 
+// Computer opponent strength
+export type BotLevel = 'easy' | 'medium' | 'hard';
+
 export interface Player {
   id: string;
   name: string;
@@ -37,6 +80,8 @@ export interface Player {
   mustPick?: number; // Cards to pick due to Pick Two/Pick Three chain
   suspended?: boolean; // Skipped due to Suspension
   isReady?: boolean; // For "Play Again" synchronization
+  isBot?: boolean; // Computer opponent, moves are made by the server
+  botLevel?: BotLevel; // Strategy used when isBot is set
 }
 
 export interface GameState {
@@ -63,26 +108,108 @@ export interface GameState {
   discardPile: Card[]; // Cards that have been played
   playerHands: Record<string, Card[]>; // Map of playerId -> their private hand
   sessionWins?: Record<string, number>; // Wins per player during room session
+  match?: MatchState; // Running totals when playing a match to a target
+  roundResult?: RoundResult; // How the round ended and what each hand counted (set with `winner`)
+  lastCardCalled?: string; // Player who called "last card" before playing their second-to-last card
+  uncalledLastCard?: string[]; // Players down to one card without calling it (server-only, never broadcast)
   // Configurable rules (set before first action, immutable after)
   rules: GameRules;
   rulesLocked: boolean; // True after first card is played
   totalTurns: number; // Track turns for rules locking
   // Turn timer
   turnStartTime?: number; // Timestamp when current turn started
+  // Reproducible shuffles (server-only, never broadcast)
+  seed?: number; // Seed the deck was shuffled with
+  rngState?: number; // PRNG position after the last shuffle/random pick
+  // Replay log
+  gameId?: string; // Identifies this deal in the action log (new id per rematch)
+  actionSeq?: number; // Sequence number of the last logged action
+  version?: number; // Bumped on every save; writes only succeed against the version they read
+  // Duplicate detection (server-only, never broadcast)
+  recentActions?: RecentAction[]; // Latest client actionIds with the response each one got
+  disconnectedSince?: Record<string, number>; // playerId -> when the host last saw their phone go offline
+}
+
+// Players waiting in a room; kept by the server so the lobby survives host reloads
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+  isBot?: boolean;
+  botLevel?: BotLevel;
+}
+
+export interface LobbyState {
+  players: LobbyPlayer[];
+  maxPlayers: number;
+  kickedIds: string[]; // Removed by the host; these ids can't rejoin
+}
+
+// Named rule set a host can start a room with (?preset=<code>). Built-in presets
+// have slug codes; custom ones are saved on the server under a short code.
+export interface RulePreset {
+  code: string;
+  name: string;
+  rules: Partial<GameRules>;
+}
+
+// How a round ended: someone played out, nothing was left to draw ("check up"), or everyone else left
+export type RoundEndReason = 'cards_out' | 'check_up' | 'forfeit';
+
+export interface RoundResult {
+  reason: RoundEndReason;
+  scores: Record<string, number>; // calculateScore of each hand left at the end (stars doubled)
+}
+
+// A match: rounds keep being dealt until one player is left under the target
+export interface MatchState {
+  target: number; // Points at which a player is knocked out
+  round: number; // 1-based round being played
+  scores: Record<string, number>; // Penalty points per player, summed over finished rounds
+  names: Record<string, string>; // Everyone who has played in the match, including those now sitting out
+  eliminated: string[]; // Player IDs knocked out, in the order they went out
+  winner: string | null; // Set once a single player remains
+}
+
+export const MAX_PLAYERS = 8; // 6 cards each still leaves a market to draw from
+
+// A mutating request the server already applied, kept so retries get the same answer
+export interface RecentAction {
+  actionId: string;
+  playerId: string; // Who sent it ('host' for host routes)
+  endpoint: string; // Route it was sent to, e.g. '/game/draw'
+  response: Record<string, unknown>;
+}
+
+// One JSON Patch (RFC 6902) operation; a path ending in '/-' appends to an array
+export type PatchOp =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+// What changed in the public state between two versions
+export interface StateDelta {
+  baseVersion: number; // Only applies on top of exactly this version
+  version: number;
+  ops: PatchOp[];
 }
 
 export interface GameMessage {
-  type: 'player_joined' | 'player_left' | 'card_played' | 'game_started' | 'shape_selected' | 'turn_changed' | 'cards_drawn' | 'special_effect' | 'deal' | 'state_sync' | 'join' | 'play' | 'draw' | 'chat_message' | 'activate_chat' | 'toggle_chat' | 'toggle_mute' | 'mute_status' | 'rules_update';
+  type: 'player_joined' | 'player_left' | 'card_played' | 'game_started' | 'shape_selected' | 'turn_changed' | 'cards_drawn' | 'special_effect' | 'deal' | 'state_sync' | 'join' | 'play' | 'draw' | 'chat_message' | 'activate_chat' | 'toggle_chat' | 'toggle_mute' | 'mute_status' | 'rules_update' | 'lobby_update' | 'round_ended' | 'last_card_called' | 'last_card_challenged' | 'player_ready';
   playerId: string;
   playerName?: string;
   card?: Card;
   cards?: Card[];
-  gameState?: GameState;
+  gameState?: GameState; // Full public state (a snapshot); otherwise `delta` may carry the changes
+  delta?: StateDelta;
   count?: number;
   shape?: CardShape;
+  selectedShape?: CardShape | null; // For card plays: the shape called with a Whot
   cardsDrawn?: number;
   effect?: string;
   message?: string; // For chat messages
   rules?: Partial<GameRules>; // For rules updates
-  timestamp: number;
+  lobby?: LobbyState; // For lobby updates
+  targetId?: string; // For last card challenges: the player challenged
+  caught?: boolean; // For last card challenges: true if the target had forgotten (they pick), false if the challenger picks
+  timestamp?: number; // Stamped when broadcast
 }
@@ -0,0 +1,69 @@
+/**
+ * Match play for Naija Whot
+ * A match is a run of rounds. When a round ends, everyone but its winner adds
+ * the cards left in their hand (calculateScore, stars doubled) to a running
+ * total; reaching the target knocks them out. The last player standing wins.
+ */
+
+import { GameState, MatchState, Player } from './game-types.ts';
+import { calculateScore } from './whot-rules.ts';
+
+/**
+ * Match state for the next deal: continues an unfinished match with the same
+ * target, otherwise starts a new one. Undefined when playing single games.
+ * Players joining mid-match start on zero.
+ */
+export function nextMatchRound(
+  previous: MatchState | undefined,
+  target: number,
+  players: Pick<Player, 'id' | 'name'>[]
+): MatchState | undefined {
+  if (!target) return undefined;
+
+  const continuing = previous && !previous.winner && previous.target === target &&
+    players.filter(p => !previous.eliminated.includes(p.id)).length >= 2;
+  const match: MatchState = continuing
+    ? { ...previous, round: previous.round + 1, scores: { ...previous.scores }, names: { ...previous.names }, eliminated: [...previous.eliminated] }
+    : { target, round: 1, scores: {}, names: {}, eliminated: [], winner: null };
+
+  for (const player of players) {
+    match.scores[player.id] ??= 0;
+    match.names[player.id] = player.name;
+  }
+  return match;
+}
+
+// Players still in the match, in seating order
+export function matchPlayerIds<T extends { id: string }>(match: MatchState | undefined, players: T[]): T[] {
+  return match ? players.filter(p => !match.eliminated.includes(p.id)) : players;
+}
+
+/**
+ * Add the finished round's penalties to the match (mutates `state.match`).
+ * Returns the players knocked out this round.
+ */
+export function scoreMatchRound(state: GameState, winnerId: string): string[] {
+  const match = state.match;
+  if (!match) return [];
+
+  const knockedOut: string[] = [];
+  for (const player of state.players) {
+    if (player.id === winnerId) continue;
+    match.scores[player.id] = (match.scores[player.id] || 0) + calculateScore(state.playerHands[player.id] || []);
+    if (match.scores[player.id] >= match.target && !match.eliminated.includes(player.id)) {
+      match.eliminated.push(player.id);
+      knockedOut.push(player.id);
+    }
+  }
+
+  // Nobody else left at the table: the round winner takes the match
+  if (state.players.filter(p => !match.eliminated.includes(p.id)).length <= 1) match.winner = winnerId;
+  return knockedOut;
+}
+
+// Leaving mid-round forfeits the match too
+export function leaveMatch(state: GameState, playerId: string) {
+  const match = state.match;
+  if (!match || match.eliminated.includes(playerId)) return;
+  match.eliminated.push(playerId);
+}
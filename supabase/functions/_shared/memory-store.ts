@@ -0,0 +1,121 @@
+/**
+ * In-memory game store
+ * Keeps rooms in plain Maps for local play and tests: nothing survives a
+ * restart. Values are cloned on the way in and out, so callers can't change
+ * stored state without saving it, just as with a database.
+ */
+
+import { GameState, LobbyState, RulePreset, MAX_PLAYERS } from './game-types.ts';
+import { ActionLogEntry } from './action-log.ts';
+import { GameStore, addLobbyPlayer, removeLobbyPlayer } from './game-store.ts';
+
+interface Room {
+  lobby: LobbyState;
+  gameState: GameState | null;
+  lastActiveAt: number; // Last create, save or lobby change
+  seatSecret: string | null;
+  seats: Set<string>;
+  actions: Map<string, ActionLogEntry[]>; // By gameId
+}
+
+export function createMemoryStore(): GameStore {
+  const rooms = new Map<string, Room>();
+  const presets = new Map<string, RulePreset>();
+
+  const findRoom = (roomCode: string): Room => {
+    const room = rooms.get(roomCode);
+    if (!room) throw new Error('Room not found');
+    return room;
+  };
+
+  return {
+    async getGameState(roomCode) {
+      const state = rooms.get(roomCode)?.gameState;
+      return state ? structuredClone(state) : null;
+    },
+
+    async saveGameState(roomCode, state, expectedVersion) {
+      let room = rooms.get(roomCode);
+      if (!room) {
+        // First save for a room that was never opened through the lobby
+        if (expectedVersion !== 0) return false;
+        room = { lobby: { players: [], maxPlayers: MAX_PLAYERS, kickedIds: [] }, gameState: null, lastActiveAt: Date.now(), seatSecret: null, seats: new Set(), actions: new Map() };
+        rooms.set(roomCode, room);
+      }
+      if ((room.gameState?.version ?? 0) !== expectedVersion) return false;
+      room.gameState = structuredClone(state);
+      room.lastActiveAt = Date.now();
+      return true;
+    },
+
+    async createRoom(roomCode, lobby, seatSecret, staleAfterMs) {
+      const existing = rooms.get(roomCode);
+      if (existing && existing.lastActiveAt >= Date.now() - staleAfterMs) return false;
+      rooms.set(roomCode, { lobby: structuredClone(lobby), gameState: null, lastActiveAt: Date.now(), seatSecret, seats: new Set(), actions: new Map() });
+      return true;
+    },
+
+    async getSeatSecret(roomCode) {
+      return rooms.get(roomCode)?.seatSecret ?? null;
+    },
+
+    async getLobby(roomCode) {
+      const lobby = rooms.get(roomCode)?.lobby;
+      return lobby ? structuredClone(lobby) : null;
+    },
+
+    async joinLobby(roomCode, player) {
+      const room = findRoom(roomCode);
+      addLobbyPlayer(room.lobby, structuredClone(player));
+      room.lastActiveAt = Date.now();
+      return structuredClone(room.lobby);
+    },
+
+    async removeFromLobby(roomCode, playerId, kick) {
+      const room = findRoom(roomCode);
+      removeLobbyPlayer(room.lobby, playerId, kick);
+      room.lastActiveAt = Date.now();
+      return structuredClone(room.lobby);
+    },
+
+    async claimSeat(roomCode, playerId) {
+      const seats = findRoom(roomCode).seats;
+      if (seats.has(playerId)) return false;
+      seats.add(playerId);
+      return true;
+    },
+
+    async releaseSeat(roomCode, playerId) {
+      rooms.get(roomCode)?.seats.delete(playerId);
+    },
+
+    async appendAction(roomCode, gameId, entry) {
+      const actions = findRoom(roomCode).actions;
+      const log = actions.get(gameId) ?? [];
+      if (log.some(e => e.seq === entry.seq)) throw new Error(`Action ${entry.seq} already logged for game ${gameId}`);
+      log.push(structuredClone(entry));
+      actions.set(gameId, log);
+    },
+
+    async getActions(roomCode, gameId, afterSeq = -1) {
+      const log = (rooms.get(roomCode)?.actions.get(gameId) ?? []).filter(e => e.seq > afterSeq);
+      return structuredClone(log).sort((a, b) => a.seq - b.seq);
+    },
+
+    async insertPreset(preset) {
+      if (presets.has(preset.code)) return false;
+      presets.set(preset.code, structuredClone(preset));
+      return true;
+    },
+
+    async getPreset(code) {
+      const preset = presets.get(code);
+      return preset ? structuredClone(preset) : null;
+    },
+
+    // Analytics are only worth keeping in production
+    async openSession() {},
+    async updateSession() {},
+    async logPlayerEvent() {},
+  };
+}
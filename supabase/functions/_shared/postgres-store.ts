@@ -0,0 +1,216 @@
+/**
+ * Postgres game store (Supabase)
+ * Rooms live in the `rooms` table; concurrent writers are serialised by the
+ * RPCs in supabase/migrations (compare-and-swap saves, atomic lobby updates).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GameState, LobbyState, RulePreset } from './game-types.ts';
+import { LoggedAction } from './action-log.ts';
+import { GameStore } from './game-store.ts';
+
+// `getClient` is called on first use, so the client library loads only when storage is touched
+export function createPostgresStore(getClient: () => Promise<SupabaseClient>): GameStore {
+  return {
+    async getGameState(roomCode) {
+      const supabase = await getClient();
+
+      // PHASE 2: Use optimized RPC function for faster reads
+      const { data, error } = await supabase.rpc('get_game_state_fast', {
+        p_room_code: roomCode
+      });
+
+      if (error) {
+        // Don't collapse transient DB/RPC errors into 'Game not found'.
+        console.error('getGameState RPC error:', { roomCode, error });
+
+        // Fallback: direct table read (helps if RPC is missing/broken or transiently failing)
+        const { data: row, error: selectError } = await supabase
+          .from('rooms')
+          .select('game_state')
+          .eq('room_code', roomCode)
+          .maybeSingle();
+
+        if (selectError) {
+          console.error('getGameState fallback select error:', { roomCode, error: selectError });
+          throw selectError;
+        }
+
+        if (!row?.game_state) return null;
+        return row.game_state as GameState;
+      }
+
+      if (!data) return null;
+      return data as GameState;
+    },
+
+    async saveGameState(roomCode, state, expectedVersion) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.rpc('save_game_state_cas', {
+        p_room_code: roomCode,
+        p_state: state,
+        p_expected_version: expectedVersion,
+      });
+      if (error) throw error;
+      return data === true;
+    },
+
+    async createRoom(roomCode, lobby, seatSecret, staleAfterMs) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.rpc('room_create', {
+        p_room_code: roomCode,
+        p_lobby: lobby,
+        p_seat_secret: seatSecret,
+        p_stale_after: `${staleAfterMs} milliseconds`,
+      });
+      if (error) throw error;
+      return data === true;
+    },
+
+    async getSeatSecret(roomCode) {
+      const supabase = await getClient();
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('seat_secret')
+        .eq('room_code', roomCode)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.seat_secret as string | null | undefined) ?? null;
+    },
+
+    async getLobby(roomCode) {
+      const supabase = await getClient();
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('lobby')
+        .eq('room_code', roomCode)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.lobby as LobbyState | undefined) ?? null;
+    },
+
+    async joinLobby(roomCode, player) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.rpc('room_lobby_join', { p_room_code: roomCode, p_player: player });
+      if (error) throw error;
+      return data as LobbyState;
+    },
+
+    async removeFromLobby(roomCode, playerId, kick) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.rpc('room_lobby_remove', {
+        p_room_code: roomCode,
+        p_player_id: playerId,
+        p_kick: kick,
+      });
+      if (error) throw error;
+      return data as LobbyState;
+    },
+
+    async claimSeat(roomCode, playerId) {
+      const supabase = await getClient();
+      const { error } = await supabase.from('player_seats').insert({ room_code: roomCode, player_id: playerId });
+      if (error?.code === '23505') return false; // Seat exists
+      if (error) throw error;
+      return true;
+    },
+
+    async releaseSeat(roomCode, playerId) {
+      const supabase = await getClient();
+      const { error } = await supabase.from('player_seats').delete().eq('room_code', roomCode).eq('player_id', playerId);
+      if (error) throw error;
+    },
+
+    async appendAction(roomCode, gameId, entry) {
+      const supabase = await getClient();
+      const { error } = await supabase.from('game_actions').insert({
+        game_id: gameId,
+        seq: entry.seq,
+        room_code: roomCode,
+        action: entry.action,
+        state_hash: entry.stateHash,
+      });
+      if (error) throw error;
+    },
+
+    async getActions(roomCode, gameId, afterSeq = -1) {
+      const supabase = await getClient();
+      const { data, error } = await supabase
+        .from('game_actions')
+        .select('seq, action, state_hash')
+        .eq('room_code', roomCode)
+        .eq('game_id', gameId)
+        .gt('seq', afterSeq)
+        .order('seq', { ascending: true });
+      if (error) throw error;
+      return (data ?? []).map((row: { seq: number; action: LoggedAction; state_hash: string }) => ({
+        seq: row.seq,
+        action: row.action,
+        stateHash: row.state_hash,
+      }));
+    },
+
+    async insertPreset(preset) {
+      const supabase = await getClient();
+      const { error } = await supabase.from('rule_presets').insert(preset);
+      if (error?.code === '23505') return false; // Code taken
+      if (error) throw error;
+      return true;
+    },
+
+    async getPreset(code) {
+      const supabase = await getClient();
+      const { data, error } = await supabase
+        .from('rule_presets')
+        .select('code, name, rules')
+        .eq('code', code)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as RulePreset | null) ?? null;
+    },
+
+    async openSession(roomCode) {
+      const supabase = await getClient();
+      // Check for existing active session
+      const { data: existing } = await supabase
+        .from('game_sessions')
+        .select('id')
+        .eq('room_code', roomCode)
+        .is('ended_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (existing) return;
+
+      const { error } = await supabase
+        .from('game_sessions')
+        .insert({ room_code: roomCode, player_count: 0 });
+      if (error) throw error;
+    },
+
+    async updateSession(roomCode, updates) {
+      const supabase = await getClient();
+      const { error } = await supabase
+        .from('game_sessions')
+        .update(updates)
+        .eq('room_code', roomCode)
+        .is('ended_at', null);
+      if (error) throw error;
+    },
+
+    async logPlayerEvent(event) {
+      const supabase = await getClient();
+      const { error } = await supabase
+        .from('player_events')
+        .insert({
+          room_code: event.roomCode,
+          player_id: event.playerId,
+          player_name: event.playerName,
+          event_type: event.eventType,
+          metadata: event.metadata,
+        });
+      if (error) throw error;
+    },
+  };
+}
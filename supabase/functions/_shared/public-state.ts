@@ -0,0 +1,40 @@
+/**
+ * Public state projection for Naija Whot
+ * The only shapes game state leaves the server in: every route response and
+ * broadcast goes through one of these. Hands, the market and the shuffle seed
+ * are dropped (the seed alone is enough to rebuild every hand), as are saved
+ * retry responses, which can hold drawn cards, and who forgot to call last
+ * card, which opponents have to notice for themselves. The discard pile is cut
+ * to the card in play; its history only grows every update.
+ */
+
+import { Card, GameState } from './game-types.ts';
+
+// Never sent to clients, nor covered by the replay hash (see action-log.ts)
+const PRIVATE_FIELDS = ['playerHands', 'marketPile', 'seed', 'rngState', 'recentActions', 'uncalledLastCard'] as const;
+type PrivateField = typeof PRIVATE_FIELDS[number];
+
+// What every screen at the table may see. Still a GameState, so clients keep one type.
+export type PublicGameState = Omit<GameState, PrivateField> & {
+  playerHands: Record<string, never>;
+  marketPile: never[];
+};
+
+// One player's own view: the public state plus their hand, and nobody else's
+export type PlayerView = Omit<PublicGameState, 'playerHands'> & {
+  playerHands: Record<string, Card[]>;
+};
+
+export function withoutPrivate(state: GameState): Omit<GameState, PrivateField> {
+  const visible: Partial<GameState> = { ...state };
+  for (const field of PRIVATE_FIELDS) delete visible[field];
+  return visible as Omit<GameState, PrivateField>;
+}
+
+export function toPublicState(state: GameState): PublicGameState {
+  return { ...withoutPrivate(state), playerHands: {}, marketPile: [], discardPile: state.discardPile.slice(-1) };
+}
+
+export function toPlayerView(state: GameState, playerId: string): PlayerView {
+  return { ...toPublicState(state), playerHands: { [playerId]: state.playerHands[playerId] ?? [] } };
+}
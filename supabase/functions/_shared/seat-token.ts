@@ -0,0 +1,53 @@
+/**
+ * Seat tokens for Naija Whot
+ * A seat token is an HMAC of the room code, the room's seat secret and the
+ * player id. It is handed out once, when the player claims their seat, and
+ * must accompany every request that reveals a hand or moves for that player.
+ * Room codes are recycled; the seat secret is drawn afresh each time a code is
+ * claimed, so tokens from an earlier room with the same code stop working.
+ */
+
+const encoder = new TextEncoder();
+
+export async function signSeatToken(secret: string, roomCode: string, roomSecret: string, playerId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${roomCode}:${roomSecret}:${playerId}`));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+export async function verifySeatToken(
+  secret: string,
+  roomCode: string,
+  roomSecret: string,
+  playerId: string,
+  token: unknown
+): Promise<boolean> {
+  if (typeof token !== 'string' || !token) return false;
+  const expected = await signSeatToken(secret, roomCode, roomSecret, playerId);
+  return timingSafeEqual(expected, token);
+}
+
+// Compare every character so response time doesn't reveal how much of a guess was right
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Fresh for every room, so a recycled room code never shares tokens with its last room
+export function newRoomSecret(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
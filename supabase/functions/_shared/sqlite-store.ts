@@ -0,0 +1,191 @@
+/**
+ * SQLite game store
+ * Rooms in a single database file for self-hosting and integration tests. Works
+ * with any synchronous SQLite binding shaped like `node:sqlite` (Node 22.5+,
+ * Deno 2.2+) or better-sqlite3. Read-modify-write steps run in immediate
+ * transactions, so several server processes can share one file.
+ */
+
+import { GameState, LobbyState, RulePreset } from './game-types.ts';
+import { LoggedAction } from './action-log.ts';
+import { GameStore, addLobbyPlayer, removeLobbyPlayer } from './game-store.ts';
+
+type SqlValue = string | number | null;
+
+// The subset of the binding this store needs
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: SqlValue[]): { changes: number | bigint };
+    get(...params: SqlValue[]): unknown;
+    all(...params: SqlValue[]): unknown[];
+  };
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rooms (
+    room_code TEXT PRIMARY KEY,
+    game_state TEXT,
+    lobby TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_active_at INTEGER NOT NULL, -- Last create, save or lobby change
+    seat_secret TEXT
+  );
+  CREATE TABLE IF NOT EXISTS player_seats (
+    room_code TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    PRIMARY KEY (room_code, player_id)
+  );
+  CREATE TABLE IF NOT EXISTS game_actions (
+    room_code TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    state_hash TEXT NOT NULL,
+    PRIMARY KEY (room_code, game_id, seq)
+  );
+  CREATE TABLE IF NOT EXISTS rule_presets (
+    code TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    rules TEXT NOT NULL
+  );
+`;
+
+// Default lobby for rooms first seen through saveGameState, as in the rooms migration
+const EMPTY_LOBBY = '{"players":[],"maxPlayers":8,"kickedIds":[]}';
+
+export function createSqliteStore(db: SqliteDatabase): GameStore {
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA busy_timeout = 5000');
+  db.exec(SCHEMA);
+
+  const transaction = <T>(fn: () => T): T => {
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = fn();
+      db.exec('COMMIT');
+      return result;
+    } catch (e) {
+      db.exec('ROLLBACK');
+      throw e;
+    }
+  };
+
+  const updateLobby = (roomCode: string, change: (lobby: LobbyState) => void): LobbyState => transaction(() => {
+    const row = db.prepare('SELECT lobby FROM rooms WHERE room_code = ?').get(roomCode) as { lobby: string } | undefined;
+    if (!row) throw new Error('Room not found');
+    const lobby = JSON.parse(row.lobby) as LobbyState;
+    change(lobby);
+    db.prepare('UPDATE rooms SET lobby = ?, last_active_at = ? WHERE room_code = ?').run(JSON.stringify(lobby), Date.now(), roomCode);
+    return lobby;
+  });
+
+  return {
+    async getGameState(roomCode) {
+      const row = db.prepare('SELECT game_state FROM rooms WHERE room_code = ?').get(roomCode) as { game_state: string | null } | undefined;
+      return row?.game_state ? JSON.parse(row.game_state) as GameState : null;
+    },
+
+    async saveGameState(roomCode, state, expectedVersion) {
+      const json = JSON.stringify(state);
+      const now = Date.now();
+      const updated = db.prepare(`
+        UPDATE rooms SET game_state = ?, last_active_at = ?
+        WHERE room_code = ? AND COALESCE(json_extract(game_state, '$.version'), 0) = ?
+      `).run(json, now, roomCode, expectedVersion);
+      if (Number(updated.changes) > 0) return true;
+
+      // First save for a new room
+      if (expectedVersion !== 0) return false;
+      const inserted = db.prepare(`
+        INSERT INTO rooms (room_code, game_state, lobby, created_at, last_active_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (room_code) DO NOTHING
+      `).run(roomCode, json, EMPTY_LOBBY, now, now);
+      return Number(inserted.changes) > 0;
+    },
+
+    async createRoom(roomCode, lobby, seatSecret, staleAfterMs) {
+      const now = Date.now();
+      return transaction(() => {
+        const claimed = db.prepare(`
+          INSERT INTO rooms (room_code, game_state, lobby, created_at, last_active_at, seat_secret) VALUES (?, NULL, ?, ?, ?, ?)
+          ON CONFLICT (room_code) DO UPDATE
+          SET game_state = NULL, lobby = excluded.lobby, created_at = excluded.created_at,
+            last_active_at = excluded.last_active_at, seat_secret = excluded.seat_secret
+          WHERE rooms.last_active_at < ?
+        `).run(roomCode, JSON.stringify(lobby), now, now, seatSecret, now - staleAfterMs);
+        if (Number(claimed.changes) === 0) return false;
+
+        db.prepare('DELETE FROM player_seats WHERE room_code = ?').run(roomCode);
+        return true;
+      });
+    },
+
+    async getSeatSecret(roomCode) {
+      const row = db.prepare('SELECT seat_secret FROM rooms WHERE room_code = ?').get(roomCode) as { seat_secret: string | null } | undefined;
+      return row?.seat_secret ?? null;
+    },
+
+    async getLobby(roomCode) {
+      const row = db.prepare('SELECT lobby FROM rooms WHERE room_code = ?').get(roomCode) as { lobby: string } | undefined;
+      return row ? JSON.parse(row.lobby) as LobbyState : null;
+    },
+
+    async joinLobby(roomCode, player) {
+      return updateLobby(roomCode, lobby => addLobbyPlayer(lobby, player));
+    },
+
+    async removeFromLobby(roomCode, playerId, kick) {
+      return updateLobby(roomCode, lobby => removeLobbyPlayer(lobby, playerId, kick));
+    },
+
+    async claimSeat(roomCode, playerId) {
+      const { changes } = db.prepare(`
+        INSERT INTO player_seats (room_code, player_id) VALUES (?, ?)
+        ON CONFLICT DO NOTHING
+      `).run(roomCode, playerId);
+      return Number(changes) > 0;
+    },
+
+    async releaseSeat(roomCode, playerId) {
+      db.prepare('DELETE FROM player_seats WHERE room_code = ? AND player_id = ?').run(roomCode, playerId);
+    },
+
+    async appendAction(roomCode, gameId, entry) {
+      db.prepare('INSERT INTO game_actions (room_code, game_id, seq, action, state_hash) VALUES (?, ?, ?, ?, ?)')
+        .run(roomCode, gameId, entry.seq, JSON.stringify(entry.action), entry.stateHash);
+    },
+
+    async getActions(roomCode, gameId, afterSeq = -1) {
+      const rows = db.prepare(`
+        SELECT seq, action, state_hash FROM game_actions
+        WHERE room_code = ? AND game_id = ? AND seq > ?
+        ORDER BY seq
+      `).all(roomCode, gameId, afterSeq) as { seq: number; action: string; state_hash: string }[];
+      return rows.map(row => ({
+        seq: Number(row.seq),
+        action: JSON.parse(row.action) as LoggedAction,
+        stateHash: row.state_hash,
+      }));
+    },
+
+    async insertPreset(preset) {
+      const { changes } = db.prepare(`
+        INSERT INTO rule_presets (code, name, rules) VALUES (?, ?, ?)
+        ON CONFLICT (code) DO NOTHING
+      `).run(preset.code, preset.name, JSON.stringify(preset.rules));
+      return Number(changes) > 0;
+    },
+
+    async getPreset(code) {
+      const row = db.prepare('SELECT code, name, rules FROM rule_presets WHERE code = ?').get(code) as
+        { code: string; name: string; rules: string } | undefined;
+      return row ? { code: row.code, name: row.name, rules: JSON.parse(row.rules) } as RulePreset : null;
+    },
+
+    // Analytics are only worth keeping in production
+    async openSession() {},
+    async updateSession() {},
+    async logPlayerEvent() {},
+  };
+}
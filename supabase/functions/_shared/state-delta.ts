@@ -0,0 +1,106 @@
+/**
+ * State deltas for Naija Whot
+ * Broadcasts send what changed in the public state as JSON Patch operations
+ * instead of the whole state, whose discard pile grows all game. Cards added
+ * to the end of an array become appends, so a play costs a few small ops.
+ */
+
+import { GameState, PatchOp, StateDelta } from './game-types.ts';
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Both states as sent over the wire (undefined fields dropped), oldest first
+export function diffState(prev: GameState, next: GameState): PatchOp[] {
+  const ops: PatchOp[] = [];
+  diffValue(toJson(prev), toJson(next), '', ops);
+  return ops;
+}
+
+// Returns a new state; throws if `state` is not the delta's base version or a path doesn't resolve
+export function applyDelta(state: GameState, delta: StateDelta): GameState {
+  if ((state.version ?? 0) !== delta.baseVersion) {
+    throw new Error(`Delta for version ${delta.baseVersion} applied to version ${state.version ?? 0}`);
+  }
+
+  const root = { state: toJson(state) };
+  for (const op of delta.ops) {
+    const keys = ['state', ...parsePath(op.path)];
+    const last = keys.pop()!;
+    let parent: Json = root as Json;
+    for (const key of keys) parent = childOf(parent, key, op.path);
+
+    if (Array.isArray(parent)) {
+      if (op.op === 'add' && last === '-') parent.push(op.value as Json);
+      else if (op.op === 'add') parent.splice(Number(last), 0, op.value as Json);
+      else if (op.op === 'replace') parent[Number(last)] = op.value as Json;
+      else parent.splice(Number(last), 1);
+    } else if (parent !== null && typeof parent === 'object') {
+      if (op.op === 'remove') delete parent[last];
+      else parent[last] = op.value as Json;
+    } else {
+      throw new Error(`Bad delta path ${op.path}`);
+    }
+  }
+  return root.state as unknown as GameState;
+}
+
+function diffValue(prev: Json, next: Json, path: string, ops: PatchOp[]) {
+  if (isEqual(prev, next)) return;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const onlyAppended = next.length >= prev.length && prev.every((item, i) => isEqual(item, next[i]));
+    if (onlyAppended) {
+      for (const item of next.slice(prev.length)) ops.push({ op: 'add', path: `${path}/-`, value: item });
+      return;
+    }
+    if (next.length === prev.length) {
+      next.forEach((item, i) => diffValue(prev[i], item, `${path}/${i}`, ops));
+      return;
+    }
+  } else if (isRecord(prev) && isRecord(next)) {
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) ops.push({ op: 'remove', path: `${path}/${escapeKey(key)}` });
+    }
+    for (const key of Object.keys(next)) {
+      if (key in prev) diffValue(prev[key], next[key], `${path}/${escapeKey(key)}`, ops);
+      else ops.push({ op: 'add', path: `${path}/${escapeKey(key)}`, value: next[key] });
+    }
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: next });
+}
+
+function childOf(parent: Json, key: string, path: string): Json {
+  const child = Array.isArray(parent) ? parent[Number(key)] : isRecord(parent) ? parent[key] : undefined;
+  if (child === undefined) throw new Error(`Bad delta path ${path}`);
+  return child;
+}
+
+function isRecord(value: Json): value is { [key: string]: Json } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: Json, b: Json): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// JSON Pointer escaping: '~' and '/' may appear in player ids
+function escapeKey(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePath(path: string): string[] {
+  if (path === '') return [];
+  return path.slice(1).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function toJson(state: GameState): Json {
+  return JSON.parse(JSON.stringify(state));
+}
@@ -1,9 +1,11 @@
 /**
- * Shared game rules for Naija Whot
- * Mirrored for Edge Function use
+ * Game rules for Naija Whot
+ * The one rules implementation: the Edge Functions import it directly and the
+ * web app through src/utils/whot-rules.ts, so the controller and the server
+ * always agree on what can be played.
  */
 
-import { Card, CardShape, CardNumber, GameState, Player, GameRules, DEFAULT_RULES } from './game-types.ts';
+import { Card, CardShape, CardNumber, GameState, Player, GameRules, DEFAULT_RULES, BotLevel } from './game-types.ts';
 
 // Special Cards
 export const SPECIAL_CARDS = {
@@ -57,10 +59,34 @@ export function createDeck(): Card[] {
   return deck;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
+export interface SeededRandom {
+  next: () => number; // Float in [0, 1)
+  state: () => number; // Current position, can be stored and passed back to resume
+}
+
+// Mulberry32: tiny, fast and good enough for shuffling cards
+export function createSeededRandom(seed: number): SeededRandom {
+  let a = seed >>> 0;
+  return {
+    next: () => {
+      a = (a + 0x6D2B79F5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => a,
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -100,8 +126,25 @@ export function getCardEffect(card: Card): {
   }
 }
 
-export function getNextPlayerIndex(currentIndex: number, playerCount: number): number {
-  return (currentIndex + 1) % playerCount;
+// Seat after `currentIndex` in the direction of play (1 clockwise, -1 reversed)
+export function getNextPlayerIndex(currentIndex: number, playerCount: number, direction: number = 1): number {
+  return (((currentIndex + direction) % playerCount) + playerCount) % playerCount;
+}
+
+// Everyone but the player at `fromIndex`, in the order their turns come round
+export function playersInTurnOrder(state: GameState, fromIndex: number): string[] {
+  const ids: string[] = [];
+  let index = fromIndex;
+  for (let i = 1; i < state.players.length; i++) {
+    index = getNextPlayerIndex(index, state.players.length, state.direction);
+    ids.push(state.players[index].id);
+  }
+  return ids;
+}
+
+// Whether the house rule makes `card` turn play around
+export function isReverseCard(card: Card, rules: GameRules): boolean {
+  return !!rules.reverseCard && card.number === rules.reverseCard;
 }
 
 export function dealCards(deck: Card[], playerCount: number, cardsPerPlayer: number = 6): {
@@ -117,15 +160,18 @@ export function dealCards(deck: Card[], playerCount: number, cardsPerPlayer: num
     deckIndex += cardsPerPlayer;
   }
 
+  // A Whot can't start the game: turned-up Whots go to the bottom of the market rather than out of play
+  const skippedWhots: Card[] = [];
   let startCard = deck[deckIndex];
   deckIndex++;
 
   while (startCard.number === 20 && deckIndex < deck.length) {
+    skippedWhots.push(startCard);
     startCard = deck[deckIndex];
     deckIndex++;
   }
 
-  const remainingDeck = deck.slice(deckIndex);
+  const remainingDeck = [...deck.slice(deckIndex), ...skippedWhots];
   return { hands, remainingDeck, startCard };
 }
 
@@ -133,18 +179,27 @@ export function mustDrawCards(state: GameState, playerId: string): number {
   const playerIndex = state.players.findIndex(p => p.id === playerId);
   if (playerIndex !== state.currentPlayerIndex) return 0;
 
-  if (state.effectActive === 'pick_two') {
-    return state.pickTwoChain * 2;
-  }
-  if (state.effectActive === 'pick_three') {
-    return state.pickThreeChain * 3;
+  if (state.effectActive === 'pick_two' || state.effectActive === 'pick_three') {
+    return pickPenalty(state);
   }
   return 0;
 }
 
+// Cards owed to the pick chain; cross-stacked chains carry both counts
+export function pickPenalty(state: GameState): number {
+  return (state.pickTwoChain || 0) * 2 + (state.pickThreeChain || 0) * 3;
+}
+
 export function canDefendAgainstPick(card: Card, state: GameState): boolean {
+  const rules = state.rules || DEFAULT_RULES;
+
+  // Whot blocks any pick (house rule), whether or not stacking is on
+  if (rules.whotBlocksPick && card.number === 20) {
+    return true;
+  }
+
   // Check if defending is enabled in rules
-  if (!state.rules?.defendPick) {
+  if (!rules.defendPick) {
     return false;
   }
   
@@ -154,27 +209,45 @@ export function canDefendAgainstPick(card: Card, state: GameState): boolean {
   }
   
   // Can defend Pick Three with another Pick Three (if Pick Three is enabled)
-  if (state.effectActive === 'pick_three' && card.number === 5 && state.rules?.pickThree) {
+  if (state.effectActive === 'pick_three' && card.number === 5 && rules.pickThree) {
     return true;
   }
+
+  // Cross-stacking (house rule): a 2 answers a Pick Three, a 5 answers a Pick Two
+  if (rules.crossStack) {
+    if (state.effectActive === 'pick_two' && card.number === 5 && rules.pickThree) return true;
+    if (state.effectActive === 'pick_three' && card.number === 2 && rules.pickTwo) return true;
+  }
   
   return false;
 }
 
-export function getPlayableCards(hand: Card[], currentCard: Card, selectedShape: CardShape | null, state: GameState): Card[] {
-  // If Pick Two/Three is active against you
-  if (state.effectActive === 'pick_two' || state.effectActive === 'pick_three') {
-    // If defending is enabled, return only cards that can defend
-    if (state.rules?.defendPick) {
-      return hand.filter(card => canDefendAgainstPick(card, state));
-    }
-    // Otherwise, must draw - no playable cards
-    return [];
+// A pick this player has to answer. One that has come back round to whoever started it
+// no longer binds them (the engine clears it); games saved before initiator tracking are let through.
+export function isFacingPick(state: GameState, playerId: string): boolean {
+  if (state.effectActive !== 'pick_two' && state.effectActive !== 'pick_three') return false;
+  return state.pickEffectInitiator !== undefined && state.pickEffectInitiator !== playerId;
+}
+
+/**
+ * Why `playerId` can't put `card` down right now, or null if they can.
+ * Turn order is the caller's concern; this only judges the card.
+ */
+export function playRejection(card: Card, state: GameState, playerId: string): string | null {
+  if (state.effectActive === 'general_market') return 'General Market! You must draw a card';
+  // A defence answers the pick itself, so it needn't match the card on top (cross-stacking, Whot blocks)
+  if (isFacingPick(state, playerId)) {
+    return canDefendAgainstPick(card, state) ? null : 'Must draw cards (Market Penalties active)';
   }
+  if (state.currentCard && !canPlayCard(card, state.currentCard, state.selectedShape)) {
+    return 'Invalid move: Card does not match shape or number';
+  }
+  return null;
+}
 
-  return hand.filter(card => {
-    return canPlayCard(card, currentCard, selectedShape);
-  });
+// Cards in `hand` that `playerId` could play now; none means they must draw
+export function getPlayableCards(hand: Card[], state: GameState, playerId: string): Card[] {
+  return hand.filter(card => playRejection(card, state, playerId) === null);
 }
 
 export function applyCardEffect(
@@ -199,11 +272,11 @@ export function applyCardEffect(
         newState.effectActive = 'pick_two';
         newState.pickEffectInitiator = playerId; // Track who played it
         newState.lastAction = `${state.players[playerIndex].name} played PICK TWO!`;
-        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length);
+        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length, newState.direction);
       } else {
         // Treat as normal card
         newState.lastAction = `${state.players[playerIndex].name} played a 2`;
-        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length);
+        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length, newState.direction);
       }
       break;
 
@@ -214,25 +287,26 @@ export function applyCardEffect(
         newState.effectActive = 'pick_three';
         newState.pickEffectInitiator = playerId; // Track who played it
         newState.lastAction = `${state.players[playerIndex].name} played PICK THREE!`;
-        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length);
+        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length, newState.direction);
       } else {
         // Treat as normal card
         newState.lastAction = `${state.players[playerIndex].name} played a 5`;
-        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length);
+        newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length, newState.direction);
       }
       break;
 
     case 'suspension': {
-       newState.lastAction = `${state.players[playerIndex].name} played SUSPENSION!`;
-       
-       const skipCount = 1;
+       const skipCount = suspensionSkips(card, state.players.length, rules);
+       newState.lastAction = skipCount > 1
+         ? `${state.players[playerIndex].name} played STAR SUSPENSION! Next ${skipCount} players skip`
+         : `${state.players[playerIndex].name} played SUSPENSION!`;
 
        // Skip players
        for(let i=0; i<skipCount; i++) {
-           newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, state.players.length);
+           newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, state.players.length, newState.direction);
        }
        // Move to the player who actually plays
-       newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, state.players.length);
+       newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, state.players.length, newState.direction);
        break;
     }
 
@@ -243,9 +317,7 @@ export function applyCardEffect(
        // Setup Manual Draw
        newState.generalMarketInitiator = playerId; // Remember who played it
        // List of all OTHER players
-       newState.marketDue = state.players
-           .filter(p => p.id !== playerId)
-           .map(p => p.id);
+       newState.marketDue = playersInTurnOrder(state, playerIndex);
            
        // Pass turn to the first person who needs to draw
        if (newState.marketDue.length > 0) {
@@ -255,8 +327,21 @@ export function applyCardEffect(
        break;
 
     default:
+       // Reverse card (house rule): play turns around before passing on
+       if (isReverseCard(card, rules)) {
+         newState.direction = -state.direction;
+         newState.lastAction = `${state.players[playerIndex].name} reversed play!`;
+       }
+       // Whot blocking a pick (house rule): the chain is cancelled, nobody draws
+       if (card.number === 20 && (state.effectActive === 'pick_two' || state.effectActive === 'pick_three')) {
+         newState.effectActive = null;
+         newState.pickTwoChain = 0;
+         newState.pickThreeChain = 0;
+         newState.pickEffectInitiator = undefined;
+         newState.lastAction = `${state.players[playerIndex].name} blocked the pick with WHOT!`;
+       }
        // No announcement for normal cards - players can see the card on table
-       newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length);
+       newState.currentPlayerIndex = getNextPlayerIndex(state.currentPlayerIndex, state.players.length, newState.direction);
        // Clear chains if normal card played (and not defending)
        if (!state.effectActive) {
          newState.pickTwoChain = 0;
@@ -268,6 +353,12 @@ export function applyCardEffect(
   return newState;
 }
 
+// Players a Suspension skips: Star 8 takes out two (house rule), never wrapping back past the player
+export function suspensionSkips(card: Card, playerCount: number, rules: GameRules): number {
+  const skips = rules.starEightSkipsTwo && card.shape === 'star' ? 2 : 1;
+  return Math.max(1, Math.min(skips, playerCount - 1));
+}
+
 export function calculateScore(hand: Card[]): number {
     return hand.reduce((total, card) => {
         let value = card.number as number;
@@ -281,10 +372,22 @@ export function calculateScore(hand: Card[]): number {
     }, 0);
 }
 
-export function createInitialGameState(roomCode: string, players: { id: string; name: string }[], rules?: Partial<GameRules>): GameState {
+export function createInitialGameState(
+  roomCode: string,
+  players: { id: string; name: string; isBot?: boolean; botLevel?: BotLevel }[],
+  rules?: Partial<GameRules>,
+  seed: number = generateSeed()
+): GameState {
+  // Merge provided rules with defaults
+  const gameRules: GameRules = {
+    ...DEFAULT_RULES,
+    ...rules
+  };
+
+  const rng = createSeededRandom(seed);
   const deck = createDeck();
-  const shuffledDeck = shuffleDeck(deck);
-  const { hands, remainingDeck, startCard } = dealCards(shuffledDeck, players.length, 6);
+  const shuffledDeck = shuffleDeck(deck, rng.next);
+  const { hands, remainingDeck, startCard } = dealCards(shuffledDeck, players.length, gameRules.handSize);
 
   const playerHands: Record<string, Card[]> = {};
   const gamePlayers: Player[] = players.map((p, index) => {
@@ -294,16 +397,11 @@ export function createInitialGameState(roomCode: string, players: { id: string;
       name: p.name,
       cardCount: hands[index].length,
       isHost: index === 0,
-      isReady: false
+      isReady: false,
+      ...(p.isBot ? { isBot: true, botLevel: p.botLevel ?? 'medium' } : {})
     };
   });
 
-  // Merge provided rules with defaults
-  const gameRules: GameRules = {
-    ...DEFAULT_RULES,
-    ...rules
-  };
-
   const initialState: GameState = {
     roomCode,
     players: gamePlayers,
@@ -325,6 +423,8 @@ export function createInitialGameState(roomCode: string, players: { id: string;
     rulesLocked: false,
     totalTurns: 0,
     turnStartTime: Date.now(),
+    seed,
+    rngState: rng.state(),
   };
 
   return applyStartCardEffect(initialState);
@@ -357,10 +457,17 @@ export function applyStartCardEffect(state: GameState): GameState {
         // All players are victims of the dealer
         newState.marketDue = newState.players.map(p => p.id);
     }
-    // 4. Suspension (Skip First Player)
+    // 4. Suspension (Skip First Player, or two for a Star 8 house rule)
     else if (currentCard.number === 8) {
         newState.lastAction = "Game Started with Suspension!";
-        newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, newState.players.length);
+        for (let i = 0; i < suspensionSkips(currentCard, newState.players.length, rules); i++) {
+            newState.currentPlayerIndex = getNextPlayerIndex(newState.currentPlayerIndex, newState.players.length, newState.direction);
+        }
+    }
+    // 5. Reverse card (house rule): play starts the other way round the table
+    else if (isReverseCard(currentCard, rules)) {
+        newState.direction = -1;
+        newState.lastAction = "Game Started with Reverse!";
     }
     
     return newState;
@@ -0,0 +1,1303 @@
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import type { Context } from "hono";
+import { DEFAULT_RULES, MAX_DEALT_CARDS, MAX_PLAYERS, type BotLevel, type GameMessage, type GameState, type LobbyPlayer, type LobbyState, type RecentAction, type RulePreset, type StateDelta } from "../_shared/game-types.ts";
+import type { GameAction, GameEvent } from "../_shared/game-engine.ts";
+import type { LoggedAction, StartAction } from "../_shared/action-log.ts";
+import type { GameStore } from "../_shared/game-store.ts";
+import { createBatchedStore, type BatchedGameStore, type SaveOptions } from "../_shared/batched-store.ts";
+import { toPlayerView, toPublicState } from "../_shared/public-state.ts";
+
+// Production build: 2025-12-23 - Phase 1 (RPC + Full State Updates)
+
+// The game server's routes. index.ts serves them on Supabase Edge Functions; the web app's
+// local mode runs the same app in the browser (see src/utils/local-server.ts).
+export const app = new Hono();
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+// Explicit CORS Config
+app.use("*", cors({
+  origin: '*',
+  allowMethods: ['POST', 'GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-client-info', 'apikey', 'x-region']
+}));
+
+// Explicit preflight handler (should be fast)
+app.options("*", (c: Context) => {
+  c.header('Access-Control-Allow-Origin', '*');
+  c.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-client-info, apikey, x-region');
+  // Cache preflight to reduce repeated OPTIONS during rapid gameplay bursts.
+  // Browsers may cap this value; a moderate default still helps a lot.
+  c.header('Access-Control-Max-Age', '600');
+  c.header('Vary', 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers');
+  return c.body(null, 204);
+});
+
+// Lazy-loaded modules (reduces cold-start and preflight overhead)
+type RulesModule = typeof import("../_shared/whot-rules.ts");
+let rulesModule: RulesModule | null = null;
+async function getRules(): Promise<RulesModule> {
+  if (rulesModule) return rulesModule;
+  rulesModule = await import("../_shared/whot-rules.ts");
+  return rulesModule;
+}
+
+type EngineModule = typeof import("../_shared/game-engine.ts");
+let engineModule: EngineModule | null = null;
+async function getEngine(): Promise<EngineModule> {
+  if (engineModule) return engineModule;
+  engineModule = await import("../_shared/game-engine.ts");
+  return engineModule;
+}
+
+type ActionLogModule = typeof import("../_shared/action-log.ts");
+let actionLogModule: ActionLogModule | null = null;
+async function getActionLog(): Promise<ActionLogModule> {
+  if (actionLogModule) return actionLogModule;
+  actionLogModule = await import("../_shared/action-log.ts");
+  return actionLogModule;
+}
+
+type SeatTokensModule = typeof import("../_shared/seat-token.ts");
+let seatTokensModule: SeatTokensModule | null = null;
+async function getSeatTokens(): Promise<SeatTokensModule> {
+  if (seatTokensModule) return seatTokensModule;
+  seatTokensModule = await import("../_shared/seat-token.ts");
+  return seatTokensModule;
+}
+
+type BotsModule = typeof import("../_shared/bots.ts");
+let botsModule: BotsModule | null = null;
+async function getBots(): Promise<BotsModule> {
+  if (botsModule) return botsModule;
+  botsModule = await import("../_shared/bots.ts");
+  return botsModule;
+}
+
+type MatchModule = typeof import("../_shared/match.ts");
+let matchModule: MatchModule | null = null;
+async function getMatch(): Promise<MatchModule> {
+  if (matchModule) return matchModule;
+  matchModule = await import("../_shared/match.ts");
+  return matchModule;
+}
+
+type StateDeltaModule = typeof import("../_shared/state-delta.ts");
+let stateDeltaModule: StateDeltaModule | null = null;
+async function getStateDelta(): Promise<StateDeltaModule> {
+  if (stateDeltaModule) return stateDeltaModule;
+  stateDeltaModule = await import("../_shared/state-delta.ts");
+  return stateDeltaModule;
+}
+
+// Another request saved a newer state first; this one was computed from a stale read
+class StateConflictError extends Error {
+  constructor(roomCode: string) {
+    super(`Game state changed in room ${roomCode}, please retry`);
+    this.name = "StateConflictError";
+  }
+}
+
+// HTTP status for actions the engine rejected or that lost a write race (null for unexpected errors)
+function ruleErrorStatus(error: unknown): 400 | 404 | 409 | null {
+  if (engineModule && error instanceof engineModule.GameRuleError) return error.status;
+  if (error instanceof StateConflictError) return 409;
+  return null;
+}
+
+// ==========================================
+// SERVER CONFIGURATION
+// ==========================================
+
+// Where rooms are kept and how room messages reach players, provided by the entry point
+export interface ServerOptions {
+  store: GameStore;
+  // Send an event to everyone on a room channel (topic `whot-<roomCode>`)
+  publish: (topic: string, event: string, payload: Record<string, unknown>) => Promise<void>;
+  seatTokenSecret: string;
+  adminSecret?: string; // Unset disables the /admin routes
+}
+
+let serverOptions: ServerOptions | null = null;
+let batchedStore: BatchedGameStore | null = null;
+
+export function configureServer(options: ServerOptions) {
+  batchedStore?.close().catch((e: unknown) => console.error("Store close failed:", toErrorMessage(e)));
+  serverOptions = options;
+  batchedStore = createBatchedStore(options.store);
+}
+
+// Stop background writes and flush pending game state, e.g. before the process exits
+export async function closeServer() {
+  await batchedStore?.close();
+  batchedStore = null;
+}
+
+function getServerOptions(): ServerOptions {
+  if (!serverOptions) throw new Error("Server not configured");
+  return serverOptions;
+}
+
+function getStore(): BatchedGameStore {
+  if (!batchedStore) throw new Error("Server not configured");
+  return batchedStore;
+}
+
+// Deno environment variables; unset when the app runs in the browser
+function env(name: string): string | undefined {
+  return (globalThis as { Deno?: { env: { get(name: string): string | undefined } } }).Deno?.env.get(name);
+}
+
+// ==========================================
+// HELPER FUNCTIONS
+// ==========================================
+
+// True only if `seatToken` was issued to this player for this room (not an earlier room with its code)
+async function hasSeat(roomCode: unknown, playerId: unknown, seatToken: unknown): Promise<boolean> {
+  if (typeof roomCode !== "string" || typeof playerId !== "string") return false;
+  const roomSecret = await getStore().getSeatSecret(roomCode);
+  if (!roomSecret) return false;
+  const { verifySeatToken } = await getSeatTokens();
+  return verifySeatToken(getServerOptions().seatTokenSecret, roomCode, roomSecret, playerId, seatToken);
+}
+
+async function signSeat(roomCode: string, playerId: string): Promise<string> {
+  const roomSecret = await getStore().getSeatSecret(roomCode);
+  if (!roomSecret) throw new Error("Room not found");
+  const { signSeatToken } = await getSeatTokens();
+  return signSeatToken(getServerOptions().seatTokenSecret, roomCode, roomSecret, playerId);
+}
+
+// "false" lets most moves skip the state write for a few seconds. Each is journaled in the
+// action log first, so a recycled instance loses nothing (see batched-store.ts).
+const STRICT_PERSIST = (env("WHOT_STRICT_PERSIST") ?? "true").toLowerCase() === "true";
+
+async function getGameState(roomCode: string): Promise<GameState | null> {
+  return getStore().getGameState(roomCode);
+}
+
+// Bumps `state.version` (mutates it). Throws StateConflictError if another request saved first.
+// Unless `persistNow`, a logged move may be batched with the room's next few (see batched-store.ts).
+async function saveGameState(roomCode: string, state: GameState, options: SaveOptions = {}) {
+  const readVersion = state.version ?? 0;
+  state.version = readVersion + 1;
+  if (!(await getStore().saveGameState(roomCode, state, readVersion, options))) {
+    throw new StateConflictError(roomCode);
+  }
+}
+
+// ==========================================
+// IDEMPOTENT REQUESTS
+// ==========================================
+
+const RECENT_ACTIONS_LIMIT = 20; // Per room; retries arrive within a few moves
+
+// Response already sent for this client actionId, if the room applied it. Ids are only unique
+// per client, so a match must also come from the same player on the same route.
+function findRecentAction(state: GameState, endpoint: string, playerId: string, actionId: unknown): Record<string, unknown> | null {
+  if (!isActionId(actionId)) return null;
+  const recent = state.recentActions?.find(a => a.actionId === actionId && a.playerId === playerId && a.endpoint === endpoint);
+  return recent?.response ?? null;
+}
+
+// Record the response on the state (mutates it) so it is saved atomically with the move
+function rememberAction(state: GameState, endpoint: string, playerId: string, actionId: unknown, response: Record<string, unknown>) {
+  if (!isActionId(actionId)) return;
+  const entry: RecentAction = { actionId, playerId, endpoint, response };
+  state.recentActions = [...(state.recentActions ?? []), entry].slice(-RECENT_ACTIONS_LIMIT);
+}
+
+function isActionId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= 64;
+}
+
+// ==========================================
+// BROADCASTS
+// ==========================================
+
+const SNAPSHOT_EVERY = 20; // Deltas between full snapshots, so a client that missed one catches up
+const MAX_BROADCAST_ROOMS = 500; // Rooms whose last broadcast state this instance remembers
+
+// Last public state this instance broadcast per room: the base for the next delta
+const lastBroadcasts = new Map<string, { state: GameState; deltasSinceSnapshot: number }>();
+
+// A public state goes out as a delta from the room's last broadcast, or as a full snapshot when
+// there is no usable base, a snapshot is due, or the delta would be no smaller. Only this version
+// (a second message about the same move, such as the round end) or the one right before it is a
+// usable base: another instance may have broadcast the moves between.
+async function stateUpdate(roomCode: string, state: GameState): Promise<{ gameState: GameState } | { delta: StateDelta }> {
+  const { diffState } = await getStateDelta();
+  const last = lastBroadcasts.get(roomCode);
+  lastBroadcasts.delete(roomCode); // Re-inserted below, so the oldest room is first in line for eviction
+  if (lastBroadcasts.size >= MAX_BROADCAST_ROOMS) {
+    const oldest = lastBroadcasts.keys().next();
+    if (!oldest.done) lastBroadcasts.delete(oldest.value);
+  }
+
+  const version = state.version ?? 0;
+  const baseVersion = last?.state.version ?? 0;
+  if (last && (baseVersion === version || baseVersion === version - 1) && last.deltasSinceSnapshot < SNAPSHOT_EVERY) {
+    const delta: StateDelta = { baseVersion, version, ops: diffState(last.state, state) };
+    if (JSON.stringify(delta).length < JSON.stringify(state).length) {
+      // Re-sending a version adds nothing a client could miss, so it doesn't bring the next snapshot closer
+      const deltasSinceSnapshot = last.deltasSinceSnapshot + (baseVersion === version ? 0 : 1);
+      lastBroadcasts.set(roomCode, { state: structuredClone(state), deltasSinceSnapshot });
+      return { delta };
+    }
+  }
+
+  lastBroadcasts.set(roomCode, { state: structuredClone(state), deltasSinceSnapshot: 0 });
+  return { gameState: state };
+}
+
+async function broadcast(roomCode: string, event: string, payload: Omit<GameMessage, "delta" | "timestamp">) {
+  const { gameState, ...message } = payload;
+  await getServerOptions().publish(`whot-${roomCode}`, event, {
+    ...message,
+    ...(gameState ? await stateUpdate(roomCode, gameState) : {}),
+    timestamp: Date.now(),
+  });
+}
+
+// End-of-round announcement (played out, check up or walkover), sent after the move that caused it
+async function broadcastRoundEnd(roomCode: string, publicState: GameState, events: GameEvent[]) {
+  const won = events.find(e => e.type === "game_won");
+  if (!won) return;
+  await broadcast(roomCode, "game-message", {
+    type: "round_ended",
+    playerId: won.playerId,
+    gameState: publicState
+  });
+}
+
+// Stamp the action onto the state and save it along with its replay log entry
+async function persistAction(roomCode: string, state: GameState, action: LoggedAction, forceWrite: boolean) {
+  const { stampAction } = await getActionLog();
+  // Games started before the action log existed have no gameId and are not logged
+  const logEntry = state.gameId ? stampAction(state, action) : null;
+
+  await saveGameState(roomCode, state, { persistNow: forceWrite, logEntry });
+}
+
+// ==========================================
+// LOBBY
+// ==========================================
+
+const HOST_SEAT = "host"; // Seat-token subject that identifies a room's host
+const MAX_NAME_LENGTH = 12;
+const ROOM_STALE_AFTER_MS = 12 * 60 * 60 * 1000; // Codes idle this long can be handed to a new room
+
+// Errors raised by the store's lobby updates, by message
+const LOBBY_ERROR_STATUS: Record<string, 403 | 404 | 409> = {
+  "Room not found": 404,
+  "Room is full": 409,
+  "Name already taken": 409,
+  "You were removed from this room": 403,
+};
+
+function lobbyErrorStatus(error: unknown): 403 | 404 | 409 | null {
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" ? LOBBY_ERROR_STATUS[message] ?? null : null;
+}
+
+async function getLobby(roomCode: string): Promise<LobbyState | null> {
+  return getStore().getLobby(roomCode);
+}
+
+async function joinLobby(roomCode: string, player: LobbyPlayer): Promise<LobbyState> {
+  return getStore().joinLobby(roomCode, player);
+}
+
+async function removeFromLobby(roomCode: string, playerId: string, kick: boolean): Promise<LobbyState> {
+  return getStore().removeFromLobby(roomCode, playerId, kick);
+}
+
+// ==========================================
+// RULE PRESETS
+// ==========================================
+
+const PRESET_NAME_MAX_LENGTH = 40;
+// No 0/O or 1/I, so a code read off the TV is typed correctly
+const PRESET_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PRESET_CODE_LENGTH = 6;
+
+function generatePresetCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(PRESET_CODE_LENGTH));
+  return Array.from(bytes, b => PRESET_CODE_ALPHABET[b % PRESET_CODE_ALPHABET.length]).join("");
+}
+
+// ==========================================
+// SERVER MOVES (bots, disconnected seats and turn deadlines)
+// ==========================================
+
+const BOT_MOVE_DELAY_MS = 900; // Long enough for the table to animate each move
+const MAX_SERVER_MOVES = 200; // Safety net: an all-bot stretch can't spin forever
+const BOT_LEVELS = ["easy", "medium", "hard"];
+
+// How long a phone may be offline before the server steps in, and what it does then:
+// "auto_play" plays that seat's turns, "forfeit" removes the player from the game
+const DISCONNECT_GRACE_MS = Number(env("WHOT_DISCONNECT_GRACE_MS") ?? "30000");
+const DISCONNECT_POLICY = env("WHOT_DISCONNECT_POLICY") === "forfeit" ? "forfeit" : "auto_play";
+const MAX_SERVER_WAIT_MS = 5000; // Re-read at least this often while waiting out a grace period
+
+// A turn left longer than the game's time limit is played for the player. The server owns the
+// deadline; clients only nudge it (any request checks it), so a closed phone can't stall the table.
+const DEFAULT_TURN_TIME_LIMIT = 60; // Seconds; games started before the rule existed
+// Deadlines further off than this are left to the next request rather than waited out in the background
+const TURN_DEADLINE_HORIZON_MS = 10000;
+
+// Rooms with a server-move loop already running on this instance
+const serverMoveLoops = new Set<string>();
+
+// Keep the worker alive for background work after the response is sent
+function runInBackground(task: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(task: Promise<unknown>): void } }).EdgeRuntime;
+  runtime?.waitUntil(task);
+}
+
+interface ServerMove {
+  type: "bot" | "auto_play" | "forfeit" | "timeout";
+  playerId: string;
+  delay: number; // ms from now until the move is due
+}
+
+// The next move the server owes this game, if any: a bot's turn, a disconnected seat past its
+// grace period, or a turn deadline within the horizon
+function nextServerMove(state: GameState, now: number): ServerMove | null {
+  if (!state.gameStarted || state.winner) return null;
+  const moves: ServerMove[] = [];
+  const current = state.players[state.currentPlayerIndex];
+  const turnDue = (state.turnStartTime ?? 0) + BOT_MOVE_DELAY_MS - now;
+
+  if (current?.isBot) moves.push({ type: "bot", playerId: current.id, delay: turnDue });
+
+  const turnTimeLimit = state.rules?.turnTimeLimit ?? DEFAULT_TURN_TIME_LIMIT;
+  const deadline = (state.turnStartTime ?? now) + turnTimeLimit * 1000 - now;
+  if (current && !current.isBot && turnTimeLimit > 0 && deadline <= TURN_DEADLINE_HORIZON_MS) {
+    moves.push({ type: "timeout", playerId: current.id, delay: deadline });
+  }
+
+  for (const [playerId, since] of Object.entries(state.disconnectedSince ?? {})) {
+    const graceLeft = since + DISCONNECT_GRACE_MS - now;
+    if (DISCONNECT_POLICY === "forfeit") {
+      moves.push({ type: "forfeit", playerId, delay: graceLeft });
+    } else if (playerId === current?.id) {
+      moves.push({ type: "auto_play", playerId, delay: Math.max(graceLeft, turnDue) });
+    }
+  }
+
+  return moves.reduce<ServerMove | null>((soonest, move) => (!soonest || move.delay < soonest.delay ? move : soonest), null);
+}
+
+// Start the server-move loop if the game is waiting on a bot, a disconnected seat or a turn deadline
+function scheduleServerMoves(roomCode: string, state: GameState) {
+  if (!nextServerMove(state, Date.now())) return;
+  if (serverMoveLoops.has(roomCode)) return;
+
+  serverMoveLoops.add(roomCode);
+  runInBackground(
+    runServerMoves(roomCode)
+      .catch((e: unknown) => {
+        // A conflict means someone else moved; their request schedules any further server moves
+        if (!(e instanceof StateConflictError)) console.error(`Server moves failed for room ${roomCode}:`, toErrorMessage(e));
+      })
+      .finally(() => serverMoveLoops.delete(roomCode))
+  );
+}
+
+// Play bot turns, disconnected seats and expired turns until the game needs nothing more from the server
+async function runServerMoves(roomCode: string) {
+  const [{ reduce }, { chooseBotAction }] = await Promise.all([getEngine(), getBots()]);
+
+  for (let move = 0; move < MAX_SERVER_MOVES; ) {
+    // Re-read every time: a human may have moved, reconnected or restarted in the meantime
+    const state = await getGameState(roomCode);
+    const now = Date.now();
+    const next = state && nextServerMove(state, now);
+    if (!state || !next) return;
+    if (next.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(next.delay, MAX_SERVER_WAIT_MS)));
+      continue;
+    }
+    move++;
+
+    const player = state.players.find(p => p.id === next.playerId);
+    const action: GameAction = next.type === "bot"
+      ? chooseBotAction(state, next.playerId, player?.botLevel ?? "medium", now)
+      : { type: next.type === "forfeit" ? "forfeit" : "auto_play", playerId: next.playerId, timestamp: now };
+    const { state: updatedState, events } = reduce(state, action);
+    if (next.type === "forfeit" && updatedState.disconnectedSince) delete updatedState.disconnectedSince[next.playerId];
+    const played = events.find(e => e.type === "card_played");
+    const drawn = events.find(e => e.type === "cards_drawn");
+
+    await persistAction(roomCode, updatedState, action, true);
+
+    const publicState = toPublicState(updatedState);
+    if (next.type === "forfeit") {
+      await broadcast(roomCode, "game-message", {
+        type: "player_left",
+        playerId: next.playerId,
+        gameState: publicState
+      });
+    } else if (played) {
+      await broadcast(roomCode, "game-message", {
+        type: "card_played",
+        playerId: next.playerId,
+        card: played.card,
+        selectedShape: played.selectedShape,
+        gameState: publicState
+      });
+    } else {
+      // Public update only: drawn cards stay hidden; a returning player refetches their hand
+      await broadcast(roomCode, "game-message", {
+        type: "draw",
+        playerId: next.type === "bot" ? "server" : next.playerId,
+        count: drawn?.cards.length ?? 0,
+        gameState: publicState
+      });
+    }
+    await broadcastRoundEnd(roomCode, publicState, events);
+
+    logEngineEvents(roomCode, updatedState, events);
+  }
+}
+
+// ==========================================
+// ANALYTICS LOGGING (Fire-and-forget)
+// ==========================================
+
+// Open (or reuse) the room's analytics session, then apply `updates` to it (fire-and-forget)
+function startSession(roomCode: string, updates: Record<string, unknown>) {
+  const store = getStore();
+  store.openSession(roomCode)
+    .then(() => store.updateSession(roomCode, updates))
+    .catch((e: unknown) => {
+      console.error("Analytics: Session error", toErrorMessage(e));
+    });
+}
+
+// Log player event (fire-and-forget - don't await this)
+function logPlayerEvent(
+  roomCode: string, 
+  playerId: string, 
+  playerName: string | undefined, 
+  eventType: string, 
+  metadata?: Record<string, unknown>
+) {
+  // Fire-and-forget - no await
+  getStore()
+    .logPlayerEvent({
+      roomCode,
+      playerId,
+      playerName: playerName || "Unknown",
+      eventType,
+      metadata: metadata || null,
+    })
+    .catch((e: unknown) => {
+      console.error("Analytics: Event log failed", toErrorMessage(e));
+    });
+}
+
+// Update game session
+function updateSession(roomCode: string, updates: Record<string, unknown>) {
+  getStore()
+    .updateSession(roomCode, updates)
+    .catch((e: unknown) => {
+      console.error("Analytics: Session update failed", toErrorMessage(e));
+    });
+}
+
+// Map engine events onto analytics rows (fire-and-forget)
+function logEngineEvents(roomCode: string, state: GameState, events: GameEvent[]) {
+  const nameOf = (playerId: string) => state.players.find(p => p.id === playerId)?.name;
+
+  for (const event of events) {
+    switch (event.type) {
+      case "card_played":
+        logPlayerEvent(roomCode, event.playerId, nameOf(event.playerId), 'play_card', {
+          card: event.card,
+          shape: event.selectedShape,
+          auto: event.auto
+        });
+        break;
+      case "cards_drawn":
+        logPlayerEvent(roomCode, event.playerId, nameOf(event.playerId), 'draw', {
+          count: event.cards.length,
+          auto: event.auto
+        });
+        break;
+      case "last_card_called":
+        logPlayerEvent(roomCode, event.playerId, nameOf(event.playerId), 'last_card_called');
+        break;
+      case "last_card_challenged": {
+        // Logged against whoever picked the penalty
+        const penalisedId = event.caught ? event.playerId : event.challengerId;
+        logPlayerEvent(roomCode, penalisedId, nameOf(penalisedId), 'last_card_penalty', {
+          challengerId: event.challengerId,
+          targetId: event.playerId,
+          caught: event.caught,
+          count: event.cards.length
+        });
+        break;
+      }
+      case "game_won": {
+        const playerName = nameOf(event.playerId);
+        const scores = state.players.map(p => `${p.name}: ${event.scores[p.id]}`).join(', ');
+        logPlayerEvent(roomCode, event.playerId, playerName, 'win', { scores, reason: event.reason });
+        updateSession(roomCode, {
+          ended_at: new Date().toISOString(),
+          winner_id: event.playerId,
+          winner_name: playerName
+        });
+        break;
+      }
+    }
+  }
+}
+
+// ==========================================
+// ROUTES (Using wildcard prefix for flexibility)
+// ==========================================
+
+// Open a new room. The host token it returns is needed to start games and kick players.
+app.post("*/room/create", async (c: Context) => {
+  try {
+    const lobby: LobbyState = { players: [], maxPlayers: MAX_PLAYERS, kickedIds: [] };
+    const { newRoomSecret } = await getSeatTokens();
+
+    // Random 4-digit codes are easy to type on a phone; retry the rare collision
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const roomCode = Math.floor(1000 + Math.random() * 9000).toString();
+      if (!(await getStore().createRoom(roomCode, lobby, newRoomSecret(), ROOM_STALE_AFTER_MS))) continue;
+
+      const hostToken = await signSeat(roomCode, HOST_SEAT);
+      return c.json({ roomCode, hostToken, lobby });
+    }
+
+    return c.json({ error: "No free room codes, please try again" }, 503);
+  } catch (error) {
+    console.error("Room create error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/room/get", async (c: Context) => {
+  try {
+    const { roomCode } = await c.req.json();
+    if (!roomCode) return c.json({ error: "Missing roomCode" }, 400);
+
+    const lobby = await getLobby(roomCode);
+    if (!lobby) return c.json({ error: "Room not found" }, 404);
+    return c.json({ lobby });
+  } catch (error) {
+    console.error("Room get error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Take a seat. Players get their seat token on first join; rejoining needs that token.
+// The host seats bots through the same route.
+app.post("*/room/join", async (c: Context) => {
+  try {
+    const { roomCode, playerId, playerName, seatToken, isBot, botLevel, hostToken } = await c.req.json();
+    const name = typeof playerName === "string" ? playerName.trim() : "";
+    if (!roomCode || typeof playerId !== "string" || !playerId || playerId === HOST_SEAT) {
+      return c.json({ error: "Missing roomCode or playerId" }, 400);
+    }
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return c.json({ error: `Name must be 1-${MAX_NAME_LENGTH} characters` }, 400);
+    }
+    if (isBot) {
+      if (!(await hasSeat(roomCode, HOST_SEAT, hostToken))) return c.json({ error: "Only the host can add bots" }, 401);
+      if (botLevel && !BOT_LEVELS.includes(botLevel)) {
+        return c.json({ error: "Invalid bot level: expected easy, medium or hard" }, 400);
+      }
+    }
+
+    // Mid-game, only players already dealt in may come back
+    const state = await getGameState(roomCode);
+    if (state?.gameStarted && !state.winner && !state.players.some(p => p.id === playerId)) {
+      return c.json({ error: "Game already in progress" }, 409);
+    }
+
+    let issuedToken: string | null = null;
+    if (!isBot) {
+      if (await getStore().claimSeat(roomCode, playerId)) {
+        issuedToken = await signSeat(roomCode, playerId);
+      } else if (!(await hasSeat(roomCode, playerId, seatToken))) {
+        // Seat exists: only its holder may rejoin
+        return c.json({ error: "Seat already claimed" }, 409);
+      }
+    }
+
+    const player: LobbyPlayer = isBot
+      ? { id: playerId, name, isBot: true, botLevel: botLevel ?? "medium" }
+      : { id: playerId, name };
+
+    let lobby: LobbyState;
+    try {
+      lobby = await joinLobby(roomCode, player);
+    } catch (error) {
+      // Release a seat claimed just now, so the player can retry with another name
+      if (issuedToken) await getStore().releaseSeat(roomCode, playerId);
+      throw error;
+    }
+
+    await broadcast(roomCode, "game-message", { type: "lobby_update", playerId, playerName: name, lobby });
+    return c.json({ lobby, ...(issuedToken ? { seatToken: issuedToken } : {}) });
+  } catch (error) {
+    const status = lobbyErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Room join error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/room/leave", async (c: Context) => {
+  try {
+    const { roomCode, playerId, seatToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+
+    const lobby = await removeFromLobby(roomCode, playerId, false);
+    await broadcast(roomCode, "game-message", { type: "lobby_update", playerId, lobby });
+    return c.json({ lobby });
+  } catch (error) {
+    const status = lobbyErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Room leave error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Host removes a player (or bot) from the lobby; kicked players can't rejoin the room
+app.post("*/room/kick", async (c: Context) => {
+  try {
+    const { roomCode, playerId, hostToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, HOST_SEAT, hostToken))) return c.json({ error: "Only the host can remove players" }, 401);
+    if (typeof playerId !== "string" || !playerId) return c.json({ error: "Missing playerId" }, 400);
+
+    const lobby = await removeFromLobby(roomCode, playerId, true);
+    await broadcast(roomCode, "game-message", { type: "lobby_update", playerId, lobby });
+    return c.json({ lobby });
+  } catch (error) {
+    const status = lobbyErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Room kick error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Host reports which players' phones are online (from Realtime Presence on the room channel).
+// Seats offline longer than the grace period are played or forfeited by the server.
+app.post("*/room/presence", async (c: Context) => {
+  try {
+    const { roomCode, hostToken, onlinePlayerIds } = await c.req.json();
+    if (!(await hasSeat(roomCode, HOST_SEAT, hostToken))) return c.json({ error: "Only the host can report presence" }, 401);
+    if (!Array.isArray(onlinePlayerIds)) return c.json({ error: "Missing onlinePlayerIds" }, 400);
+    const online = new Set(onlinePlayerIds);
+
+    // Another move can land between read and save; re-read and try again
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const state = await getGameState(roomCode);
+      if (!state?.gameStarted || state.winner) return c.json({ success: true, disconnectedSince: {} });
+
+      const now = Date.now();
+      const previous = state.disconnectedSince ?? {};
+      const disconnectedSince: Record<string, number> = {};
+      for (const player of state.players) {
+        if (player.isBot || online.has(player.id)) continue;
+        disconnectedSince[player.id] = previous[player.id] ?? now;
+      }
+
+      const changed = JSON.stringify(disconnectedSince) !== JSON.stringify(previous);
+      try {
+        if (changed) {
+          state.disconnectedSince = disconnectedSince;
+          await saveGameState(roomCode, state, { persistNow: true });
+        }
+        scheduleServerMoves(roomCode, state);
+        return c.json({ success: true, disconnectedSince });
+      } catch (e) {
+        if (!(e instanceof StateConflictError)) throw e;
+      }
+    }
+
+    return c.json({ error: "Game is busy, please try again" }, 409);
+  } catch (error) {
+    console.error("Room presence error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Save the host's rules under a short code others can start a room with (?preset=<code>)
+app.post("*/presets/save", async (c: Context) => {
+  try {
+    const { name, rules } = await c.req.json();
+    const presetName = typeof name === "string" ? name.trim() : "";
+    if (!presetName || presetName.length > PRESET_NAME_MAX_LENGTH) {
+      return c.json({ error: `Preset name must be 1-${PRESET_NAME_MAX_LENGTH} characters` }, 400);
+    }
+    if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+      return c.json({ error: "Missing rules" }, 400);
+    }
+    const { validateRules } = await getEngine();
+    validateRules(rules);
+
+    // Random codes are short enough to read out; retry the rare collision
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const preset: RulePreset = { code: generatePresetCode(), name: presetName, rules };
+      if (!(await getStore().insertPreset(preset))) continue; // Code taken
+      return c.json({ preset });
+    }
+
+    return c.json({ error: "No free preset codes, please try again" }, 503);
+  } catch (error) {
+    const status = ruleErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Preset save error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/presets/get", async (c: Context) => {
+  try {
+    const { code } = await c.req.json();
+    if (typeof code !== "string" || !code) return c.json({ error: "Missing code" }, 400);
+
+    const preset = await getStore().getPreset(code.trim().toUpperCase());
+    if (!preset) return c.json({ error: "Preset not found" }, 404);
+    return c.json({ preset });
+  } catch (error) {
+    console.error("Preset get error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/game/start", async (c: Context) => {
+  try {
+    const { roomCode, players: requestedPlayers, rules, seed, actionId, hostToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, HOST_SEAT, hostToken))) {
+      return c.json({ error: "Only the host can start the game" }, 401);
+    }
+
+    // The lobby decides who plays; the request's list only covers rooms without one
+    const lobby = await getLobby(roomCode);
+    const seated = lobby?.players.length ? lobby.players : requestedPlayers;
+    const { validateRules } = await getEngine();
+    validateRules(rules || {});
+
+    // Fetch existing session wins (for "Play Again" scenarios)
+    const existingState = await getGameState(roomCode);
+    // A retried start must not deal a second game
+    const original = existingState && findRecentAction(existingState, "/game/start", HOST_SEAT, actionId);
+    if (original) return c.json({ ...original, state: toPublicState(existingState) });
+    const sessionWins = existingState?.sessionWins || {};
+
+    // In a match, players knocked out in earlier rounds sit this one out
+    const { nextMatchRound, matchPlayerIds } = await getMatch();
+    const match = Array.isArray(seated)
+      ? nextMatchRound(existingState?.match, rules?.matchTarget ?? 0, seated)
+      : undefined;
+    const players = Array.isArray(seated) ? matchPlayerIds(match, seated) : seated;
+
+    if (!roomCode || !players || players.length < 2) {
+      return c.json({ error: "Invalid room code or not enough players" }, 400);
+    }
+    if (players.length > MAX_PLAYERS) {
+      return c.json({ error: `At most ${MAX_PLAYERS} players can play` }, 400);
+    }
+    // Bots fill seats, but someone has to be playing
+    if (!players.some((p: { isBot?: boolean }) => !p.isBot)) {
+      return c.json({ error: "At least one human player is required" }, 400);
+    }
+    if (players.some((p: { isBot?: boolean; botLevel?: string }) => p.isBot && p.botLevel && !BOT_LEVELS.includes(p.botLevel))) {
+      return c.json({ error: "Invalid bot level: expected easy, medium or hard" }, 400);
+    }
+    const handSize = rules?.handSize ?? DEFAULT_RULES.handSize;
+    if (players.length * handSize > MAX_DEALT_CARDS) {
+      return c.json({ error: `Not enough cards to deal ${handSize} each to ${players.length} players` }, 400);
+    }
+    // Optional fixed seed reproduces an exact deal (tests, bug reports, replays)
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+      return c.json({ error: "Invalid seed: expected an unsigned 32-bit integer" }, 400);
+    }
+
+    const [{ generateSeed }, { startGame }] = await Promise.all([getRules(), getActionLog()]);
+
+    // The start entry is everything needed to rebuild this exact deal later,
+    // including session wins preserved from previous games
+    const start: StartAction = {
+      type: "start",
+      gameId: crypto.randomUUID(),
+      roomCode,
+      players: players.map((p: { id: string; name: string; isBot?: boolean; botLevel?: BotLevel }) =>
+        p.isBot ? { id: p.id, name: p.name, isBot: true, botLevel: p.botLevel ?? "medium" } : { id: p.id, name: p.name }
+      ),
+      rules: rules || {},
+      seed: seed ?? generateSeed(),
+      sessionWins,
+      ...(match ? { match } : {}),
+      timestamp: Date.now(),
+    };
+    const initialState = startGame(start);
+    // Versions keep counting across games in a room so clients never see a new game as stale
+    initialState.version = existingState?.version ?? 0;
+    rememberAction(initialState, "/game/start", HOST_SEAT, actionId, { success: true });
+
+    // Save to DB (force write on game start)
+    await persistAction(roomCode, initialState, start, true);
+
+    // Announce the deal with the public state. The channel is shared, so cards are never
+    // broadcast: each player fetches their hand with their seat token.
+    const publicState = toPublicState(initialState);
+    await broadcast(roomCode, "game-message", {
+      type: "deal",
+      playerId: "server",
+      gameState: publicState
+    });
+
+    // Analytics: Create session and log game start (fire-and-forget)
+    startSession(roomCode, {
+      started_at: new Date().toISOString(),
+      player_count: players.length
+    });
+    for (const player of initialState.players) {
+      logPlayerEvent(roomCode, player.id, player.name, 'join');
+    }
+
+    // A bot may hold the opening turn
+    scheduleServerMoves(roomCode, initialState);
+
+    return c.json({ success: true, state: publicState });
+  } catch (error) {
+    // Bad rules (400) or a concurrent write (409)
+    const status = ruleErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Start error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/game/get-state", async (c: Context) => {
+  try {
+    const { roomCode } = await c.req.json();
+
+    if (!roomCode) return c.json({ error: "Missing roomCode" }, 400);
+
+    const state = await getGameState(roomCode);
+    if (!state) return c.json({ error: "Game not found" }, 404);
+
+    // Every read doubles as a deadline check
+    scheduleServerMoves(roomCode, state);
+    return c.json({ gameState: toPublicState(state) });
+  } catch (error) {
+    console.error("Get-state error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Deadline check: any client watching the table calls this when the turn timer runs out.
+// The server decides whether the turn really expired; early calls just arm the background check.
+app.post("*/game/tick", async (c: Context) => {
+  try {
+    const { roomCode } = await c.req.json();
+    if (!roomCode) return c.json({ error: "Missing roomCode" }, 400);
+
+    const state = await getGameState(roomCode);
+    if (!state) return c.json({ error: "Game not found" }, 404);
+
+    scheduleServerMoves(roomCode, state);
+    return c.json({ success: true, scheduled: serverMoveLoops.has(roomCode) });
+  } catch (error) {
+    console.error("Tick error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+app.post("*/game/play-card", async (c: Context) => {
+  try {
+    const { roomCode, playerId, card, selectedShape, declareLastCard, actionId, seatToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+
+    const state = await getGameState(roomCode);
+    if (!state) return c.json({ error: "Game not found" }, 404);
+
+    // Retry of a play that already landed: answer as before instead of rejecting it
+    const original = findRecentAction(state, "/game/play-card", playerId, actionId);
+    if (original) return c.json({ ...original, state: toPlayerView(state, playerId) });
+
+    // A last card call sent with the play can't lose a race against it
+    const action: GameAction = {
+      type: "play",
+      playerId,
+      card,
+      selectedShape,
+      ...(declareLastCard === true ? { declareLastCard: true } : {}),
+      timestamp: Date.now()
+    };
+    const { reduce } = await getEngine();
+    const { state: updatedState, events } = reduce(state, action);
+    const played = events.find(e => e.type === "card_played");
+
+    // Correctness-first: ensure DB reflects the move before broadcasting.
+    // This avoids cross-instance read-after-write gaps that produce false "Not your turn".
+    const mustPersistNow = STRICT_PERSIST || updatedState.winner !== null;
+    rememberAction(updatedState, "/game/play-card", playerId, actionId, { success: true });
+    // Log the card actually taken from the hand, not whatever the client sent
+    await persistAction(roomCode, updatedState, { ...action, card: played!.card }, mustPersistNow);
+
+    // Prepare public state (never leak hands)
+    const publicState = toPublicState(updatedState);
+
+    await broadcast(roomCode, "game-message", {
+      type: "card_played",
+      playerId,
+      card: played?.card,
+      selectedShape: played?.selectedShape,
+      gameState: publicState
+    });
+    await broadcastRoundEnd(roomCode, publicState, events);
+
+    logEngineEvents(roomCode, updatedState, events);
+    scheduleServerMoves(roomCode, updatedState);
+
+    return c.json({ success: true, state: toPlayerView(updatedState, playerId) });
+
+  } catch (error) {
+    const status = ruleErrorStatus(error);
+    if (status) return c.json({ error: toErrorMessage(error) }, status);
+    console.error("Play error:", error);
+    return c.json({ error: toErrorMessage(error) }, 500);
+  }
+});
+
+// Event: Player Ready for Next Game
+app.post("*/game/ready", async (c: Context) => {
+    try {
+      const { roomCode, playerId, actionId, seatToken } = await c.req.json();
+      if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+      const state = await getGameState(roomCode);
+      if (!state) return c.json({ error: "Game not found" }, 404);
+
+      const original = findRecentAction(state, "/game/ready", playerId, actionId);
+      if (original) return c.json(original);
+
+      const { reduce } = await getEngine();
+      const action: GameAction = { type: "ready", playerId };
+      const { state: updatedState, events } = reduce(state, action);
+
+      if (events.length > 0) {
+          // Batch write (not critical)
+          rememberAction(updatedState, "/game/ready", playerId, actionId, { success: true });
+          await persistAction(roomCode, updatedState, action, false);
+
+          // Single broadcast with ready status
+          await broadcast(roomCode, "game-message", {
+              type: "player_ready",
+              playerId: playerId,
+              gameState: toPublicState(updatedState)
+          });
+      }
+      return c.json({ success: true });
+      } catch (e: unknown) {
+        if (e instanceof StateConflictError) return c.json({ error: toErrorMessage(e) }, 409);
+        return c.json({ error: toErrorMessage(e) }, 500);
+    }
+});
+
+// "Last card!" called by a player holding two cards (house rule)
+app.post("*/game/last-card", async (c: Context) => {
+  try {
+    const { roomCode, playerId, actionId, seatToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+    const state = await getGameState(roomCode);
+    if (!state) return c.json({ error: "Game not found" }, 404);
+
+    const original = findRecentAction(state, "/game/last-card", playerId, actionId);
+    if (original) return c.json(original);
+
+    const { reduce } = await getEngine();
+    const action: GameAction = { type: "declare_last_card", playerId };
+    const { state: updatedState, events } = reduce(state, action);
+
+    // Must land before the card it covers is played
+    rememberAction(updatedState, "/game/last-card", playerId, actionId, { success: true });
+    await persistAction(roomCode, updatedState, action, true);
+
+    await broadcast(roomCode, "game-message", {
+      type: "last_card_called",
+      playerId,
+      gameState: toPublicState(updatedState)
+    });
+    logEngineEvents(roomCode, updatedState, events);
+
+    return c.json({ success: true });
+  } catch (e: unknown) {
+    const status = ruleErrorStatus(e);
+    if (status) return c.json({ error: toErrorMessage(e) }, status);
+    return c.json({ error: toErrorMessage(e) }, 500);
+  }
+});
+
+// An opponent says a player went down to one card without calling it. Challenges are blind:
+// if the player had forgotten they pick the penalty, otherwise the challenger does.
+app.post("*/game/challenge", async (c: Context) => {
+  try {
+    const { roomCode, playerId, targetId, actionId, seatToken } = await c.req.json();
+    if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+    const state = await getGameState(roomCode);
+    if (!state) return c.json({ error: "Game not found" }, 404);
+
+    const original = findRecentAction(state, "/game/challenge", playerId, actionId);
+    if (original) return c.json({ ...original, state: toPlayerView(state, playerId) });
+
+    const { reduce } = await getEngine();
+    const action: GameAction = { type: "challenge_last_card", playerId, targetId };
+    const { state: updatedState, events } = reduce(state, action);
+    const caught = events.some(e => e.type === "last_card_challenged" && e.caught);
+
+    rememberAction(updatedState, "/game/challenge", playerId, actionId, { success: true, caught });
+    await persistAction(roomCode, updatedState, action, true);
+
+    const publicState = toPublicState(updatedState);
+    await broadcast(roomCode, "game-message", {
+      type: "last_card_challenged",
+      playerId,
+      targetId,
+      caught,
+      gameState: publicState
+    });
+    await broadcastRoundEnd(roomCode, publicState, events);
+    logEngineEvents(roomCode, updatedState, events);
+
+    return c.json({ success: true, caught, state: toPlayerView(updatedState, playerId) });
+  } catch (e: unknown) {
+    const status = ruleErrorStatus(e);
+    if (status) return c.json({ error: toErrorMessage(e) }, status);
+    return c.json({ error: toErrorMessage(e) }, 500);
+  }
+});
+
+app.post("*/game/draw", async (c: Context) => {
+    try {
+      const { roomCode, playerId, actionId, seatToken } = await c.req.json();
+      if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+
+      const state = await getGameState(roomCode);
+      if (!state) return c.json({ error: "Game not found" }, 404);
+
+      // Retry after a timeout: hand back the cards already dealt rather than dealing again
+      const original = findRecentAction(state, "/game/draw", playerId, actionId);
+      if (original) return c.json(original);
+
+      const { reduce } = await getEngine();
+      const action: GameAction = { type: "draw", playerId, timestamp: Date.now() };
+      const { state: updatedState, events } = reduce(state, action);
+      const drawnCards = events.find(e => e.type === "cards_drawn")?.cards ?? [];
+
+      // Correctness-first: persist state before broadcasting so other instances read the latest.
+      const mustPersistNow = STRICT_PERSIST || updatedState.winner !== null;
+      rememberAction(updatedState, "/game/draw", playerId, actionId, { success: true, cards: drawnCards });
+      await persistAction(roomCode, updatedState, action, mustPersistNow);
+
+      // Broadcast public update (the drawn cards only go back in this response)
+      const publicState = toPublicState(updatedState);
+      await broadcast(roomCode, "game-message", {
+        type: "draw",
+        playerId: "server",
+        count: drawnCards.length,
+        gameState: publicState
+      });
+      await broadcastRoundEnd(roomCode, publicState, events);
+
+      logEngineEvents(roomCode, updatedState, events);
+      scheduleServerMoves(roomCode, updatedState);
+
+      return c.json({ success: true, cards: drawnCards });
+    } catch (error) {
+      const status = ruleErrorStatus(error);
+      if (status) return c.json({ error: toErrorMessage(error) }, status);
+      return c.json({ error: toErrorMessage(error) }, 500);
+    }
+});
+
+app.post("*/game/get-hand", async (c: Context) => {
+    try {
+        const { roomCode, playerId, seatToken } = await c.req.json();
+        if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+        const state = await getGameState(roomCode);
+        if (!state) return c.json({ error: "Game not found" }, 404);
+        
+        const hand = state.playerHands[playerId] || [];
+        return c.json({ hand });
+    } catch(e) {
+      return c.json({error: toErrorMessage(e)}, 500);
+    }
+});
+
+// Replay a finished game from its action log (public frames only)
+app.post("*/game/replay", async (c: Context) => {
+    try {
+        const { roomCode, gameId } = await c.req.json();
+        if (!roomCode) return c.json({ error: "Missing roomCode" }, 400);
+
+        const state = await getGameState(roomCode);
+        if (!state) return c.json({ error: "Game not found" }, 404);
+
+        // Defaults to the latest game; earlier games in the room are finished by definition
+        const targetGameId = gameId || state.gameId;
+        if (!targetGameId) return c.json({ error: "No replay recorded for this game" }, 404);
+        if (targetGameId === state.gameId && !state.winner) {
+            return c.json({ error: "Replay is only available once the game is over" }, 400);
+        }
+
+        const entries = await getStore().getActions(roomCode, targetGameId);
+        if (entries.length === 0) return c.json({ error: "No replay recorded for this game" }, 404);
+
+        const { replayActionLog } = await getActionLog();
+        const frames = replayActionLog(entries);
+
+        return c.json({ gameId: targetGameId, frames });
+    } catch(e) {
+      console.error("Replay error:", e);
+      return c.json({ error: toErrorMessage(e) }, 500);
+    }
+});
+
+// Host updates game rules (only before first action)
+app.post("*/game/update-rules", async (c: Context) => {
+    try {
+        const { roomCode, rules, actionId, hostToken } = await c.req.json();
+        if (!(await hasSeat(roomCode, HOST_SEAT, hostToken))) return c.json({ error: "Only the host can change the rules" }, 401);
+        const state = await getGameState(roomCode);
+        if (!state) return c.json({ error: "Game not found" }, 404);
+
+        const original = findRecentAction(state, "/game/update-rules", HOST_SEAT, actionId);
+        if (original) return c.json(original);
+
+        const { reduce } = await getEngine();
+        const action: GameAction = { type: "update_rules", playerId: HOST_SEAT, rules };
+        const { state: updatedState } = reduce(state, action);
+
+        // Save and broadcast (not critical, batch write)
+        rememberAction(updatedState, "/game/update-rules", HOST_SEAT, actionId, { success: true, rules: updatedState.rules });
+        await persistAction(roomCode, updatedState, action, false);
+        
+        const publicState = toPublicState(updatedState);
+        
+        await broadcast(roomCode, "game-message", {
+            type: "rules_update",
+            playerId: HOST_SEAT,
+            rules: updatedState.rules,
+            gameState: publicState
+        });
+        
+        return c.json({ success: true, rules: updatedState.rules });
+    } catch(e) {
+      const status = ruleErrorStatus(e);
+      if (status) return c.json({ error: toErrorMessage(e) }, status);
+      return c.json({ error: toErrorMessage(e) }, 500);
+    }
+});
+
+// Auto-play endpoint (called when timer expires)
+app.post("*/game/auto-play", async (c: Context) => {
+    try {
+        const { roomCode, playerId, actionId, seatToken } = await c.req.json();
+        if (!(await hasSeat(roomCode, playerId, seatToken))) return c.json({ error: "Invalid seat token" }, 401);
+        const state = await getGameState(roomCode);
+        if (!state) return c.json({ error: "Game not found" }, 404);
+
+        const original = findRecentAction(state, "/game/auto-play", playerId, actionId);
+        if (original) return c.json(original);
+
+        const { reduce } = await getEngine();
+        const action: GameAction = { type: "auto_play", playerId, timestamp: Date.now() };
+        const { state: updatedState, events } = reduce(state, action);
+
+        const skipped = events.find(e => e.type === "auto_play_skipped");
+        if (skipped) return c.json({ success: true, skipped: true, reason: skipped.reason });
+
+        const played = events.find(e => e.type === "card_played");
+        const drawn = events.find(e => e.type === "cards_drawn");
+        const response = played
+            ? { success: true, action: 'play', card: played.card }
+            : { success: true, action: 'draw', count: drawn?.cards.length ?? 0 };
+
+        // Force write on win, otherwise batch (not critical)
+        rememberAction(updatedState, "/game/auto-play", playerId, actionId, response);
+        await persistAction(roomCode, updatedState, action, updatedState.winner !== null);
+
+        const publicState = toPublicState(updatedState);
+
+        if (played) {
+            await broadcast(roomCode, "game-message", {
+                type: "card_played",
+                playerId,
+                card: played.card,
+                selectedShape: played.selectedShape,
+                gameState: publicState
+            });
+        } else if (drawn) {
+            // No cards on the shared channel: the player refetches their hand
+            await broadcast(roomCode, "game-message", {
+                type: "draw",
+                playerId,
+                count: drawn.cards.length,
+                gameState: publicState
+            });
+        }
+        await broadcastRoundEnd(roomCode, publicState, events);
+
+        logEngineEvents(roomCode, updatedState, events);
+        scheduleServerMoves(roomCode, updatedState);
+
+        return c.json(response);
+    } catch(e) {
+      // Lost the race to a real move: nothing to auto-play any more
+      if (e instanceof StateConflictError) return c.json({ success: true, skipped: true, reason: "Turn already passed" });
+      console.error("Auto-play error:", e);
+      return c.json({ error: toErrorMessage(e) }, 500);
+    }
+});
+
+// Write every deferred game state now, e.g. before a deploy. Send the admin secret as `x-admin-secret`.
+app.post("*/admin/flush", async (c: Context) => {
+  const { adminSecret } = getServerOptions();
+  const { timingSafeEqual } = await getSeatTokens();
+  if (!adminSecret || !timingSafeEqual(adminSecret, c.req.header("x-admin-secret") ?? "")) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const writes = await getStore().flush();
+  return c.json({ success: true, writes });
+});
+
+// Health check endpoint (keep function warm)
+app.get("*/health", (c: Context) => {
+  return c.json({ 
+    status: "ok", 
+    timestamp: Date.now(),
+    writes: getStore().metrics(),
+    version: "phase1-rpc-optimized"
+  });
+});
+
+app.notFound((c: Context) => {
+  return c.json({ 
+    error: `Route not found: ${c.req.path}`, 
+    method: c.req.method,
+    debug: "Using wildcard routing"
+  }, 404);
+});
+
@@ -0,0 +1,46 @@
+import { app, closeServer, configureServer } from "./app.ts";
+import type { GameStore } from "../_shared/game-store.ts";
+import { getSupabase, hasSupabase, publishToRealtime, supabaseKey } from "./supabase.ts";
+
+// Self-hosted entry for plain Deno (no Edge Runtime):
+//   deno run -A --config supabase/functions/deno.json supabase/functions/whot-server/standalone.ts
+// WHOT_STORE picks where rooms live: "sqlite" (default, WHOT_SQLITE_PATH), "memory" or "postgres".
+// Room messages still go out over Supabase Realtime when SUPABASE_URL is set.
+
+async function openStore(kind: string): Promise<GameStore> {
+  if (kind === "memory") {
+    const { createMemoryStore } = await import("../_shared/memory-store.ts");
+    return createMemoryStore();
+  }
+  if (kind === "postgres") {
+    if (!hasSupabase) throw new Error("WHOT_STORE=postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+    const { createPostgresStore } = await import("../_shared/postgres-store.ts");
+    return createPostgresStore(getSupabase);
+  }
+  if (kind === "sqlite") {
+    const { DatabaseSync } = await import("node:sqlite");
+    const { createSqliteStore } = await import("../_shared/sqlite-store.ts");
+    return createSqliteStore(new DatabaseSync(Deno.env.get("WHOT_SQLITE_PATH") ?? "whot.db"));
+  }
+  throw new Error(`Unknown WHOT_STORE "${kind}" (expected sqlite, memory or postgres)`);
+}
+
+const seatTokenSecret = Deno.env.get("WHOT_SEAT_TOKEN_SECRET") || supabaseKey;
+if (!seatTokenSecret) throw new Error("Set WHOT_SEAT_TOKEN_SECRET to sign seat tokens");
+
+configureServer({
+  store: await openStore(Deno.env.get("WHOT_STORE") ?? "sqlite"),
+  publish: hasSupabase ? publishToRealtime : async () => {},
+  seatTokenSecret,
+  adminSecret: Deno.env.get("WHOT_ADMIN_SECRET"),
+});
+if (!hasSupabase) console.warn("SUPABASE_URL not set: room messages are not delivered to players");
+
+const server = Deno.serve({ port: Number(Deno.env.get("PORT") ?? 8000) }, app.fetch);
+
+// Write any batched game state before exiting
+Deno.addSignalListener("SIGINT", async () => {
+  await closeServer();
+  await server.shutdown();
+  Deno.exit(0);
+});
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// The service-role client shared by the Postgres store and Realtime publishing
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+export const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+export const hasSupabase = Boolean(supabaseUrl && supabaseKey);
+
+let supabase: SupabaseClient | null = null;
+export async function getSupabase(): Promise<SupabaseClient> {
+  if (supabase) return supabase;
+  const { createClient } = await import("@supabase/supabase-js");
+  supabase = createClient(supabaseUrl, supabaseKey);
+  return supabase;
+}
+
+// Send an event to a room channel through Supabase Realtime
+export async function publishToRealtime(topic: string, event: string, payload: Record<string, unknown>) {
+  const supabase = await getSupabase();
+
+  // Use RPC to call the database function that inserts into realtime.messages
+  const { error } = await supabase.rpc("broadcast_message", {
+    p_topic: topic,
+    p_event: event,
+    p_payload: payload,
+  });
+
+  if (error) {
+    console.error("Broadcast RPC error:", error);
+    throw error;
+  }
+}
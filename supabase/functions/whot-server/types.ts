@@ -2,5 +2,5 @@ export type RequestBody = {
   roomCode: string;
   playerId: string;
   action: 'join' | 'play' | 'draw' | 'start';
-  payload?: any;
+  payload?: unknown;
 };
@@ -0,0 +1,43 @@
+-- Migration: Create append-only action log for game replays
+-- Created: 2025-12-26
+-- Purpose: Record the seed and every action of a game so it can be replayed step by step
+
+-- ==========================================
+-- Table: game_actions
+-- One row per action; seq 0 is the 'start' entry holding the seed and players
+-- ==========================================
+CREATE TABLE IF NOT EXISTS game_actions (
+  game_id UUID NOT NULL,            -- GameState.gameId (new id per deal/rematch)
+  seq INTEGER NOT NULL,             -- Order within the game, starting at 0
+  room_code TEXT NOT NULL,
+  action JSONB NOT NULL,            -- The engine action (or start entry) as applied
+  state_hash TEXT NOT NULL,         -- Hash of the public state after the action
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (game_id, seq),
+  CONSTRAINT fk_room FOREIGN KEY (room_code) REFERENCES rooms(room_code) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_actions_room_code ON game_actions(room_code);
+
+-- ==========================================
+-- Append-only: rows can be inserted (and removed with their room) but never rewritten
+-- ==========================================
+CREATE OR REPLACE FUNCTION prevent_game_action_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'game_actions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS game_actions_append_only ON game_actions;
+CREATE TRIGGER game_actions_append_only
+  BEFORE UPDATE ON game_actions
+  FOR EACH ROW EXECUTE FUNCTION prevent_game_action_update();
+
+-- ==========================================
+-- Row Level Security
+-- No public policy: the start entry contains the shuffle seed, which reveals every hand.
+-- The Edge Function uses the Service Role, which bypasses RLS.
+-- ==========================================
+ALTER TABLE game_actions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,41 @@
+-- Migration: Compare-and-swap saves for game state
+-- Created: 2025-12-27
+-- Purpose: Stop concurrent requests on different edge instances from overwriting each other's moves
+
+-- ==========================================
+-- Function: Save Game State (Compare-and-swap)
+-- ==========================================
+-- Writes p_state only if the stored game_state.version still equals
+-- p_expected_version. Rooms saved before versioning count as version 0.
+CREATE OR REPLACE FUNCTION save_game_state_cas(
+  p_room_code TEXT,
+  p_state JSONB,
+  p_expected_version BIGINT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE rooms
+  SET game_state = p_state
+  WHERE room_code = p_room_code
+    AND COALESCE((game_state->>'version')::BIGINT, 0) = p_expected_version;
+
+  IF FOUND THEN
+    RETURN TRUE;
+  END IF;
+
+  -- First save for a new room
+  IF p_expected_version = 0 THEN
+    INSERT INTO rooms (room_code, game_state)
+    VALUES (p_room_code, p_state)
+    ON CONFLICT (room_code) DO NOTHING;
+    RETURN FOUND;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- Grant Permissions
+-- ==========================================
+GRANT EXECUTE ON FUNCTION save_game_state_cas TO service_role;
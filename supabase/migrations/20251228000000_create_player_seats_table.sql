@@ -0,0 +1,27 @@
+-- Migration: Player seats
+-- Created: 2025-12-28
+-- Purpose: Record which player ids have claimed a seat in a room, so each seat token is issued only once
+
+-- ==========================================
+-- Table: player_seats
+-- ==========================================
+-- No foreign key to rooms: seats are claimed in the lobby, before the room row exists.
+CREATE TABLE IF NOT EXISTS player_seats (
+  room_code TEXT NOT NULL,
+  player_id TEXT NOT NULL,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_code, player_id)
+);
+
+-- ==========================================
+-- Row Level Security
+-- ==========================================
+-- Only the Edge Function (service role) reads or writes seats
+ALTER TABLE player_seats ENABLE ROW LEVEL SECURITY;
+
+-- ==========================================
+-- Table Changes: rooms
+-- ==========================================
+-- game_state holds every hand; anyone with the anon key could read it through
+-- this policy. Clients only ever go through the Edge Function, so drop it.
+DROP POLICY IF EXISTS "Enable read access for all users" ON rooms;
@@ -0,0 +1,172 @@
+-- Migration: Server-side room lobby
+-- Created: 2025-12-29
+-- Purpose: Persist who has joined a room so the lobby survives host reloads
+
+-- ==========================================
+-- Table Changes: rooms
+-- ==========================================
+-- Rooms now exist before their first game is dealt
+ALTER TABLE rooms ALTER COLUMN game_state DROP NOT NULL;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS lobby JSONB NOT NULL DEFAULT '{"players": [], "maxPlayers": 8, "kickedIds": []}';
+
+-- Signs the room's seat tokens. Drawn afresh each time a code is claimed, so
+-- tokens from an earlier room with the same code stop working. Rooms created
+-- before this migration have none, so their tokens stop working too.
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS seat_secret TEXT;
+
+-- Codes are recycled once their room has sat idle, not once it is old: a long
+-- match would otherwise lose its code mid-game. Every save and lobby change counts.
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION touch_room_last_active()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.last_active_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rooms_touch_last_active ON rooms;
+CREATE TRIGGER rooms_touch_last_active
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION touch_room_last_active();
+
+-- ==========================================
+-- Table Changes: player_seats
+-- ==========================================
+-- Seats are now claimed by joining a room's lobby, so the room always exists
+-- first. Seats claimed against codes that were never opened are dropped, and
+-- seats go with their room.
+DELETE FROM player_seats WHERE room_code NOT IN (SELECT room_code FROM rooms);
+
+ALTER TABLE player_seats
+  ADD CONSTRAINT player_seats_room_code_fkey
+  FOREIGN KEY (room_code) REFERENCES rooms(room_code) ON DELETE CASCADE;
+
+-- ==========================================
+-- Function: Create Room
+-- ==========================================
+-- Claims p_room_code for a new lobby, keeping p_seat_secret on the room. A code
+-- still in use is refused; one idle for longer than p_stale_after is recycled,
+-- along with its seats.
+CREATE OR REPLACE FUNCTION room_create(
+  p_room_code TEXT,
+  p_lobby JSONB,
+  p_seat_secret TEXT,
+  p_stale_after INTERVAL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO rooms (room_code, game_state, lobby, created_at, seat_secret)
+  VALUES (p_room_code, NULL, p_lobby, NOW(), p_seat_secret)
+  ON CONFLICT (room_code) DO UPDATE
+  SET game_state = NULL, lobby = EXCLUDED.lobby, created_at = NOW(), seat_secret = EXCLUDED.seat_secret
+  WHERE rooms.last_active_at < NOW() - p_stale_after;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM player_seats WHERE room_code = p_room_code;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- Function: Join Lobby (Atomic)
+-- ==========================================
+-- Adds p_player ({id, name, isBot?, botLevel?}) to the lobby. Rejoining with
+-- the same id is a no-op. Raises 'Room not found', 'Room is full',
+-- 'Name already taken' or 'You were removed from this room'.
+CREATE OR REPLACE FUNCTION room_lobby_join(
+  p_room_code TEXT,
+  p_player JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_lobby JSONB;
+BEGIN
+  -- Row lock serialises concurrent joins, so the player limit can't be overshot
+  SELECT lobby INTO v_lobby
+  FROM rooms
+  WHERE room_code = p_room_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF COALESCE(v_lobby->'kickedIds', '[]'::JSONB) ? (p_player->>'id') THEN
+    RAISE EXCEPTION 'You were removed from this room';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_lobby->'players') AS player
+    WHERE player->>'id' = p_player->>'id'
+  ) THEN
+    RETURN v_lobby;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_lobby->'players') AS player
+    WHERE LOWER(player->>'name') = LOWER(p_player->>'name')
+  ) THEN
+    RAISE EXCEPTION 'Name already taken';
+  END IF;
+
+  IF jsonb_array_length(v_lobby->'players') >= (v_lobby->>'maxPlayers')::INTEGER THEN
+    RAISE EXCEPTION 'Room is full';
+  END IF;
+
+  v_lobby = jsonb_set(v_lobby, '{players}', (v_lobby->'players') || jsonb_build_array(p_player));
+
+  UPDATE rooms SET lobby = v_lobby WHERE room_code = p_room_code;
+  RETURN v_lobby;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- Function: Remove From Lobby (Atomic)
+-- ==========================================
+-- Removes a player (leave or kick). Kicked ids may not rejoin the room.
+CREATE OR REPLACE FUNCTION room_lobby_remove(
+  p_room_code TEXT,
+  p_player_id TEXT,
+  p_kick BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_lobby JSONB;
+BEGIN
+  SELECT lobby INTO v_lobby
+  FROM rooms
+  WHERE room_code = p_room_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  v_lobby = jsonb_set(v_lobby, '{players}', COALESCE((
+    SELECT jsonb_agg(player ORDER BY idx)
+    FROM jsonb_array_elements(v_lobby->'players') WITH ORDINALITY arr(player, idx)
+    WHERE player->>'id' <> p_player_id
+  ), '[]'::JSONB));
+
+  IF p_kick THEN
+    v_lobby = jsonb_set(v_lobby, '{kickedIds}', COALESCE(v_lobby->'kickedIds', '[]'::JSONB) || to_jsonb(p_player_id));
+  END IF;
+
+  UPDATE rooms SET lobby = v_lobby WHERE room_code = p_room_code;
+  RETURN v_lobby;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- Grant Permissions
+-- ==========================================
+GRANT EXECUTE ON FUNCTION room_create TO service_role;
+GRANT EXECUTE ON FUNCTION room_lobby_join TO service_role;
+GRANT EXECUTE ON FUNCTION room_lobby_remove TO service_role;
@@ -0,0 +1,20 @@
+-- Migration: Rule presets
+-- Created: 2025-12-30
+-- Purpose: Save a host's house rules under a short code, so they can be shared as ?preset=<code>
+
+-- ==========================================
+-- Table: rule_presets
+-- ==========================================
+-- Presets are immutable once saved: a shared code always means the same rules
+CREATE TABLE IF NOT EXISTS rule_presets (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ==========================================
+-- Row Level Security
+-- ==========================================
+-- Only the Edge Function (service role) reads or writes presets
+ALTER TABLE rule_presets ENABLE ROW LEVEL SECURITY;
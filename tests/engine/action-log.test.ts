@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ActionLogEntry, hashPublicState, replayActionLog, stampAction, startGame, StartAction } from '../../supabase/functions/_shared/action-log';
+import { reduce, GameAction } from '../../supabase/functions/_shared/game-engine';
+import { getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { GameState } from '../../supabase/functions/_shared/game-types';
+
+const START: StartAction = {
+  type: 'start',
+  gameId: 'game-1',
+  roomCode: '1234',
+  players: [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }, { id: 'chi', name: 'Chi' }],
+  rules: {},
+  seed: 42,
+  sessionWins: {},
+  timestamp: 1,
+};
+
+// Logs `moves` turns of a seeded game the way the server does: the first playable card, else a draw
+function playLoggedGame(moves: number): { entries: ActionLogEntry[]; final: GameState } {
+  let state = startGame(START);
+  const entries = [stampAction(state, START)];
+
+  for (let turn = 0; turn < moves && !state.winner; turn++) {
+    const playerId = state.players[state.currentPlayerIndex].id;
+    const [card] = getPlayableCards(state.playerHands[playerId], state, playerId);
+    const action: GameAction = card
+      ? { type: 'play', playerId, card: { id: card.id }, selectedShape: card.number === 20 ? 'circle' : null, timestamp: 2 + turn }
+      : { type: 'draw', playerId, timestamp: 2 + turn };
+    state = reduce(state, action).state;
+    entries.push(stampAction(state, action));
+  }
+
+  return { entries, final: state };
+}
+
+describe('replayActionLog', () => {
+  it('rebuilds every frame of a game from its seed and moves', () => {
+    const { entries, final } = playLoggedGame(20);
+    const frames = replayActionLog(entries);
+
+    expect(frames.map(f => f.seq)).toEqual(entries.map(e => e.seq));
+    expect(frames.every(f => f.verified)).toBe(true);
+    expect(frames[frames.length - 1].state.currentCard).toEqual(final.currentCard);
+    expect(frames[frames.length - 1].state.players).toEqual(final.players);
+  });
+
+  it('replays entries stored out of order', () => {
+    const { entries } = playLoggedGame(6);
+    expect(replayActionLog([...entries].reverse()).map(f => f.seq)).toEqual(entries.map(e => e.seq));
+  });
+
+  it('never sends the seed, hands or market', () => {
+    const frames = replayActionLog(playLoggedGame(4).entries);
+    expect(frames[0].action).not.toHaveProperty('seed');
+    for (const frame of frames) {
+      expect(frame.state.playerHands).toEqual({});
+      expect(frame.state.marketPile).toEqual([]);
+    }
+  });
+
+  it('flags frames whose hash does not match the log', () => {
+    const { entries } = playLoggedGame(4);
+    entries[2] = { ...entries[2], stateHash: 'deadbeef' };
+    expect(replayActionLog(entries).map(f => f.verified)).toEqual([true, true, false, true, true]);
+  });
+
+  it('stops at an action the engine rejects', () => {
+    const { entries } = playLoggedGame(4);
+    entries[3] = { ...entries[3], action: { type: 'draw', playerId: 'nobody', timestamp: 1 } };
+    expect(replayActionLog(entries)).toHaveLength(3);
+  });
+
+  it('needs the start entry', () => {
+    expect(replayActionLog(playLoggedGame(3).entries.slice(1))).toEqual([]);
+  });
+});
+
+describe('hashPublicState', () => {
+  it('ignores key order and private fields', () => {
+    const state = startGame(START);
+    const reordered = Object.fromEntries(Object.entries(state).reverse()) as unknown as GameState;
+    expect(hashPublicState(reordered)).toBe(hashPublicState(state));
+    expect(hashPublicState({ ...state, playerHands: {}, marketPile: [], seed: 7 })).toBe(hashPublicState(state));
+  });
+
+  it('changes with the public state', () => {
+    const state = startGame(START);
+    expect(hashPublicState({ ...state, currentPlayerIndex: 1 })).not.toBe(hashPublicState(state));
+  });
+});
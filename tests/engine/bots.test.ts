@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { chooseBotAction } from '../../supabase/functions/_shared/bots';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import { pickShapeHeldMost, sheddingStrategy } from '../../supabase/functions/_shared/auto-play-strategy';
+import { BotLevel, Card, GameRules } from '../../supabase/functions/_shared/game-types';
+import { getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { card, table } from './table';
+
+const LEVELS: BotLevel[] = ['easy', 'medium', 'hard'];
+
+// What the shedding strategy plays from `hand` onto `top`
+function shed(hand: Card[], top: Card, rules: Partial<GameRules> = {}) {
+  const state = table({ a: hand, b: [card('cross', 3)] }, top, { rules });
+  const playable = getPlayableCards(hand, state, 'a');
+  const { card: chosen, selectedShape } = sheddingStrategy.choose(playable, hand, state, () => 0);
+  return { card: chosen.id, selectedShape };
+}
+
+describe('shedding strategy', () => {
+  it('sheds the highest-value plain card, counting stars double', () => {
+    expect(shed([card('circle', 3), card('circle', 13), card('star', 7)], card('circle', 7))).toEqual({ card: 'star-7', selectedShape: null });
+    expect(shed([card('circle', 3), card('circle', 13), card('star', 4)], card('circle', 7))).toEqual({ card: 'circle-13', selectedShape: null });
+  });
+
+  it('keeps specials and Whots for when nothing plain fits', () => {
+    expect(shed([card('circle', 14), card('circle', 1), card('circle', 3), card('circle', 20)], card('circle', 7))).toEqual({ card: 'circle-3', selectedShape: null });
+    expect(shed([card('circle', 14), card('circle', 1), card('circle', 20)], card('circle', 7)).card).toBe('circle-14');
+    expect(shed([card('square', 4), card('circle', 20), card('cross', 3)], card('circle', 7))).toEqual({ card: 'circle-20', selectedShape: 'square' });
+  });
+
+  it('treats Pick Two and Pick Three as plain cards when the rules turn them off', () => {
+    expect(shed([card('circle', 2), card('circle', 5), card('circle', 3)], card('circle', 7), { pickThree: true }).card).toBe('circle-3');
+    expect(shed([card('circle', 2), card('circle', 5), card('circle', 3)], card('circle', 7), { pickTwo: false }).card).toBe('circle-5');
+  });
+
+  it('plays out with whatever the last card is', () => {
+    expect(shed([card('circle', 20)], card('circle', 7)).card).toBe('circle-20');
+  });
+
+  it('calls the shape held most, then the one holding the most points', () => {
+    expect(pickShapeHeldMost([card('cross', 3), card('cross', 4), card('star', 1)])).toBe('cross');
+    expect(pickShapeHeldMost([card('cross', 3), card('star', 2), card('circle', 20)])).toBe('star');
+  });
+});
+
+describe('bots', () => {
+  it.each(LEVELS)('only play cards the rules allow (%s)', level => {
+    const tops = [card('circle', 11), card('star', 3), card('triangle', 5), card('square', 2)];
+    for (let seed = 0; seed < 20; seed++) {
+      const state = table(
+        { a: [card('circle', 3), card('star', 7), card('circle', 20), card('square', 11), card('circle', 2)], b: [card('cross', 3), card('cross', 4)] },
+        tops[seed % 4]
+      );
+      const action = chooseBotAction(state, 'a', level, 0, () => (seed * 0.37) % 1);
+      expect(action.type).toBe('play');
+      // The engine is the judge: it throws on an illegal play
+      expect(() => reduce(state, action)).not.toThrow();
+    }
+  });
+
+  it.each(LEVELS)('go to market when nothing fits or the market is owed (%s)', level => {
+    const stuck = table({ a: [card('square', 4), card('cross', 5)], b: [card('cross', 3)] }, card('circle', 11));
+    expect(chooseBotAction(stuck, 'a', level, 7)).toEqual({ type: 'draw', playerId: 'a', timestamp: 7 });
+
+    const state = table({ a: [card('circle', 14), card('star', 7)], b: [card('circle', 4)], c: [card('cross', 3)] }, card('circle', 11));
+    const market = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-14' }, timestamp: 1 }).state;
+    expect(chooseBotAction(market, 'b', level, 7).type).toBe('draw');
+  });
+
+  it.each(LEVELS)('never forget to call last card (%s)', level => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('cross', 3), card('cross', 4)] }, card('circle', 11), { rules: { lastCardPenalty: 2 } });
+    expect(chooseBotAction(state, 'a', level, 0)).toMatchObject({ type: 'play', declareLastCard: true });
+  });
+
+  it('pick at random from the game seed, so a seeded table always plays out the same', () => {
+    const hand = [card('circle', 3), card('circle', 4), card('circle', 5), card('circle', 6), card('circle', 20)];
+    const moves = (seed: number) => {
+      const state = { ...table({ a: hand, b: [card('cross', 3)] }, card('circle', 11)), seed };
+      return chooseBotAction(state, 'a', 'easy', 0);
+    };
+    expect(moves(42)).toEqual(moves(42));
+    // Still random across seeds
+    expect(new Set(Array.from({ length: 20 }, (_, seed) => JSON.stringify(moves(seed)))).size).toBeGreaterThan(1);
+  });
+
+  it('plays like the shedding strategy at medium', () => {
+    const state = table({ a: [card('circle', 3), card('circle', 13), card('circle', 1)], b: [card('cross', 3)] }, card('circle', 7));
+    expect(chooseBotAction(state, 'a', 'medium', 0)).toMatchObject({ card: { id: 'circle-13' } });
+  });
+
+  it('holds on to Whots and strikes with Pick Two when the next player is close to winning at hard', () => {
+    const holding = table({ a: [card('circle', 20), card('circle', 3), card('square', 5)], b: [card('cross', 3), card('cross', 4), card('cross', 5)] }, card('circle', 7));
+    expect(chooseBotAction(holding, 'a', 'hard', 0)).toMatchObject({ card: { id: 'circle-3' } });
+
+    const striking = table({ a: [card('circle', 2), card('circle', 13), card('square', 5)], b: [card('cross', 3), card('cross', 4)] }, card('circle', 7));
+    expect(chooseBotAction(striking, 'a', 'hard', 0)).toMatchObject({ card: { id: 'circle-2' } });
+  });
+});
@@ -0,0 +1,438 @@
+import { describe, expect, it } from 'vitest';
+import { reduce, GameRuleError } from '../../supabase/functions/_shared/game-engine';
+import { GameRules, GameState } from '../../supabase/functions/_shared/game-types';
+import { createInitialGameState, createSeededRandom } from '../../supabase/functions/_shared/whot-rules';
+import { card, table } from './table';
+
+const turnOf = (state: GameState) => state.players[state.currentPlayerIndex].id;
+
+describe('reduce: play', () => {
+  it('moves a matching card onto the discard pile and passes the turn', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 });
+
+    expect(next.currentCard).toEqual(card('circle', 3));
+    expect(next.discardPile.map(c => c.id)).toEqual(['circle-11', 'circle-3']);
+    expect(next.playerHands.a).toEqual([card('star', 7)]);
+    expect(next.players[0].cardCount).toBe(1);
+    expect(turnOf(next)).toBe('b');
+    expect(next.rulesLocked).toBe(true);
+    expect(events).toEqual([{ type: 'card_played', playerId: 'a', card: card('circle', 3), selectedShape: null, auto: false }]);
+  });
+
+  it('accepts a number match in another shape', () => {
+    const state = table({ a: [card('star', 11), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(reduce(state, { type: 'play', playerId: 'a', card: { id: 'star-11' }, timestamp: 1 }).state.currentCard?.id).toBe('star-11');
+  });
+
+  it('never changes the state it was given', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    const before = structuredClone(state);
+    reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 });
+    expect(state).toEqual(before);
+  });
+
+  it('rejects cards that match neither shape nor number', () => {
+    const state = table({ a: [card('star', 7), card('star', 4)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'play', playerId: 'a', card: { id: 'star-7' }, timestamp: 1 }))
+      .toThrow('Invalid move: Card does not match shape or number');
+  });
+
+  it('rejects moves out of turn and cards not in hand', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('circle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'play', playerId: 'b', card: { id: 'circle-4' }, timestamp: 1 })).toThrow('Not your turn');
+    expect(() => reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-4' }, timestamp: 1 })).toThrow('Card not in hand');
+
+    const error = (() => {
+      try {
+        reduce(state, { type: 'play', playerId: 'z', card: { id: 'circle-3' }, timestamp: 1 });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(GameRuleError);
+    expect((error as GameRuleError).status).toBe(404);
+  });
+
+  it('keeps the turn with whoever plays Hold On', () => {
+    const state = table({ a: [card('circle', 1), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(turnOf(reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-1' }, timestamp: 1 }).state)).toBe('a');
+  });
+});
+
+describe('reduce: draw', () => {
+  it('takes the top market card and passes the turn', () => {
+    const state = table({ a: [card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 });
+
+    expect(next.playerHands.a.map(c => c.id)).toEqual(['star-7', 'square-10']);
+    expect(next.marketPile).toHaveLength(4);
+    expect(next.deckCount).toBe(4);
+    expect(turnOf(next)).toBe('b');
+    expect(events).toEqual([{ type: 'cards_drawn', playerId: 'a', cards: [card('square', 10)], auto: false }]);
+  });
+
+  it('rejects draws out of turn', () => {
+    const state = table({ a: [card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'draw', playerId: 'b', timestamp: 1 })).toThrow('Not your turn');
+  });
+});
+
+describe('seeded games', () => {
+  const PLAYERS = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }];
+
+  it('deals the same table from the same seed', () => {
+    const first = createInitialGameState('1234', PLAYERS, {}, 42);
+    const second = createInitialGameState('1234', PLAYERS, {}, 42);
+    expect(second.playerHands).toEqual(first.playerHands);
+    expect(second.marketPile).toEqual(first.marketPile);
+    expect(second.currentCard).toEqual(first.currentCard);
+    expect(second.rngState).toBe(first.rngState);
+
+    expect(createInitialGameState('1234', PLAYERS, {}, 43).playerHands).not.toEqual(first.playerHands);
+  });
+
+  it('resumes the generator from a stored position', () => {
+    const rng = createSeededRandom(7);
+    rng.next();
+    const resumed = createSeededRandom(rng.state());
+    expect([resumed.next(), resumed.next()]).toEqual([rng.next(), rng.next()]);
+  });
+
+  it('reshuffles the market the same way from the same state, and moves the generator on', () => {
+    const state = table({ a: [card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11), { market: [] });
+    state.discardPile = [card('circle', 3), card('circle', 4), card('circle', 5), card('circle', 10), card('circle', 12), card('circle', 11)];
+    state.rngState = 99;
+
+    const first = reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 }).state;
+    const second = reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 }).state;
+    expect(second.playerHands.a).toEqual(first.playerHands.a);
+    expect(second.marketPile).toEqual(first.marketPile);
+    expect(first.rngState).not.toBe(99);
+  });
+});
+
+describe('reduce: pick chains', () => {
+  it('makes the next player pick two', () => {
+    const state = table({ a: [card('circle', 2), card('star', 7)], b: [card('circle', 4), card('triangle', 4)] }, card('circle', 11));
+    const picked = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-2' }, timestamp: 1 }).state;
+    expect(picked.effectActive).toBe('pick_two');
+    expect(turnOf(picked)).toBe('b');
+
+    // A matching card is no answer to a pick
+    expect(() => reduce(picked, { type: 'play', playerId: 'b', card: { id: 'circle-4' }, timestamp: 2 }))
+      .toThrow('Must draw cards (Market Penalties active)');
+
+    const drawn = reduce(picked, { type: 'draw', playerId: 'b', timestamp: 2 }).state;
+    expect(drawn.playerHands.b).toHaveLength(4);
+    expect(drawn.effectActive).toBeNull();
+    expect(drawn.pickTwoChain).toBe(0);
+    expect(turnOf(drawn)).toBe('a');
+  });
+
+  it('stacks defending twos onto the next player', () => {
+    const state = table(
+      { a: [card('circle', 2), card('star', 7)], b: [card('triangle', 2), card('triangle', 4)], c: [card('cross', 3)] },
+      card('circle', 11),
+      { rules: { defendPick: true } }
+    );
+    const first = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-2' }, timestamp: 1 }).state;
+    const second = reduce(first, { type: 'play', playerId: 'b', card: { id: 'triangle-2' }, timestamp: 2 }).state;
+    expect(second.pickTwoChain).toBe(2);
+    expect(turnOf(second)).toBe('c');
+
+    const drawn = reduce(second, { type: 'draw', playerId: 'c', timestamp: 3 }).state;
+    expect(drawn.playerHands.c).toHaveLength(5);
+  });
+
+  it('makes the next player pick three when Pick Three is on', () => {
+    const state = table({ a: [card('circle', 5), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11), { rules: { pickThree: true } });
+    const picked = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-5' }, timestamp: 1 }).state;
+    expect(picked.effectActive).toBe('pick_three');
+    expect(reduce(picked, { type: 'draw', playerId: 'b', timestamp: 2 }).state.playerHands.b).toHaveLength(4);
+  });
+});
+
+describe('reduce: suspension', () => {
+  it('skips the next player', () => {
+    const state = table({ a: [card('circle', 8), card('star', 7)], b: [card('triangle', 4)], c: [card('cross', 3)] }, card('circle', 11));
+    expect(turnOf(reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-8' }, timestamp: 1 }).state)).toBe('c');
+  });
+});
+
+describe('reduce: reverse card', () => {
+  it('turns play around when the house rule is on', () => {
+    const state = table({ a: [card('circle', 7), card('star', 7)], b: [card('circle', 4)], c: [card('circle', 3)] }, card('circle', 11), { rules: { reverseCard: 7 } });
+    const next = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-7' }, timestamp: 1 }).state;
+    expect(next.direction).toBe(-1);
+    expect(turnOf(next)).toBe('c');
+  });
+
+  it('sends General Market round the table the way play is going', () => {
+    const state = { ...table({ a: [card('circle', 14), card('star', 7)], b: [card('circle', 4)], c: [card('cross', 3)] }, card('circle', 11)), direction: -1 };
+    const next = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-14' }, timestamp: 1 }).state;
+    expect(next.marketDue).toEqual(['c', 'b']);
+    expect(turnOf(next)).toBe('c');
+  });
+
+  it('is an ordinary card when the rule is off', () => {
+    const state = table({ a: [card('circle', 7), card('star', 7)], b: [card('circle', 4)], c: [card('circle', 3)] }, card('circle', 11));
+    const next = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-7' }, timestamp: 1 }).state;
+    expect(next.direction).toBe(1);
+    expect(turnOf(next)).toBe('b');
+  });
+});
+
+describe('reduce: general market', () => {
+  it('makes every opponent draw one in turn order, then hands the turn back', () => {
+    const state = table({ a: [card('circle', 14), card('star', 7)], b: [card('circle', 4)], c: [card('cross', 3)] }, card('circle', 11));
+    let next = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-14' }, timestamp: 1 }).state;
+    expect(next.effectActive).toBe('general_market');
+    expect(next.marketDue).toEqual(['b', 'c']);
+    expect(turnOf(next)).toBe('b');
+    expect(() => reduce(next, { type: 'play', playerId: 'b', card: { id: 'circle-4' }, timestamp: 2 }))
+      .toThrow('General Market! You must draw a card');
+
+    next = reduce(next, { type: 'draw', playerId: 'b', timestamp: 2 }).state;
+    expect(turnOf(next)).toBe('c');
+
+    const { state: cleared, events } = reduce(next, { type: 'draw', playerId: 'c', timestamp: 3 });
+    expect(cleared.effectActive).toBeNull();
+    expect(turnOf(cleared)).toBe('a');
+    expect(cleared.playerHands.b).toHaveLength(2);
+    expect(cleared.playerHands.c).toHaveLength(2);
+    expect(events).toContainEqual({ type: 'market_cleared', initiatorId: 'a' });
+  });
+});
+
+describe('reduce: whot', () => {
+  it('goes on anything and names the shape to follow', () => {
+    const state = table(
+      { a: [card('circle', 20), card('star', 7)], b: [card('star', 4), card('triangle', 11), card('circle', 3)] },
+      card('triangle', 11)
+    );
+    const next = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-20' }, selectedShape: 'star', timestamp: 1 }).state;
+    expect(next.selectedShape).toBe('star');
+
+    // Only the named shape follows; the number and shape underneath no longer count
+    expect(() => reduce(next, { type: 'play', playerId: 'b', card: { id: 'circle-3' }, timestamp: 2 })).toThrow('Invalid move');
+    expect(reduce(next, { type: 'play', playerId: 'b', card: { id: 'star-4' }, timestamp: 2 }).state.currentCard?.id).toBe('star-4');
+  });
+});
+
+describe('reduce: winning', () => {
+  it('ends the round when a player plays their last card', () => {
+    const state = table({ a: [card('circle', 3)], b: [card('star', 4), card('circle', 20, 2)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 });
+
+    expect(next.winner).toBe('a');
+    expect(next.sessionWins).toEqual({ a: 1 });
+    expect(next.roundResult).toEqual({ reason: 'cards_out', scores: { a: 0, b: 28 } });
+    expect(events).toContainEqual({ type: 'game_won', playerId: 'a', scores: { a: 0, b: 28 }, reason: 'cards_out' });
+    expect(() => reduce(next, { type: 'draw', playerId: turnOf(next), timestamp: 2 })).toThrow('Game is over');
+  });
+
+  it("doesn't let Hold On win unless the rule allows it", () => {
+    const state = table({ a: [card('circle', 1)], b: [card('star', 4)] }, card('circle', 11));
+    expect(reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-1' }, timestamp: 1 }).state.winner).toBeNull();
+
+    const allowed = table({ a: [card('circle', 1)], b: [card('star', 4)] }, card('circle', 11), { rules: { winWithHoldOn: true } });
+    expect(reduce(allowed, { type: 'play', playerId: 'a', card: { id: 'circle-1' }, timestamp: 1 }).state.winner).toBe('a');
+  });
+});
+
+describe('reduce: rules', () => {
+  it('updates rules until the first card is played', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'update_rules', playerId: 'a', rules: { pickThree: true } });
+    expect(next.rules.pickThree).toBe(true);
+    expect(events[0].type).toBe('rules_updated');
+
+    const played = reduce(next, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 }).state;
+    expect(() => reduce(played, { type: 'update_rules', playerId: 'a', rules: { pickThree: false } }))
+      .toThrow('Rules are locked after first card is played');
+  });
+
+  it('rejects turn time limits not on offer', () => {
+    const state = table({ a: [card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'update_rules', playerId: 'a', rules: { turnTimeLimit: 45 } as unknown as Partial<GameRules> })).toThrow('Invalid turn time limit');
+    expect(reduce(state, { type: 'update_rules', playerId: 'a', rules: { turnTimeLimit: 15 } }).state.rules.turnTimeLimit).toBe(15);
+  });
+
+  it('rejects unknown rules', () => {
+    const state = table({ a: [card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'update_rules', playerId: 'a', rules: { fastMode: true } as Partial<GameRules> })).toThrow('Unknown rule: fastMode');
+  });
+});
+
+describe('reduce: house rules', () => {
+  it('suspends the next two players with a Star 8', () => {
+    const hands = { a: [card('star', 8), card('star', 7)], b: [card('triangle', 4)], c: [card('cross', 3)], d: [card('square', 3)] };
+    const state = table(hands, card('star', 11), { rules: { starEightSkipsTwo: true } });
+    expect(turnOf(reduce(state, { type: 'play', playerId: 'a', card: { id: 'star-8' }, timestamp: 1 }).state)).toBe('d');
+
+    // Only star eights, and never all the way round to the player
+    const circle = table({ ...hands, a: [card('circle', 8), card('star', 7)] }, card('circle', 11), { rules: { starEightSkipsTwo: true } });
+    expect(turnOf(reduce(circle, { type: 'play', playerId: 'a', card: { id: 'circle-8' }, timestamp: 1 }).state)).toBe('c');
+    const headsUp = table({ a: [card('star', 8), card('star', 7)], b: [card('triangle', 4)] }, card('star', 11), { rules: { starEightSkipsTwo: true } });
+    expect(turnOf(reduce(headsUp, { type: 'play', playerId: 'a', card: { id: 'star-8' }, timestamp: 1 }).state)).toBe('a');
+  });
+
+  it('lets a Whot block a pick', () => {
+    const state = table(
+      { a: [card('circle', 2), card('star', 7)], b: [card('circle', 20), card('triangle', 4)], c: [card('cross', 3)] },
+      card('circle', 11),
+      { rules: { whotBlocksPick: true } }
+    );
+    const picked = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-2' }, timestamp: 1 }).state;
+    const blocked = reduce(picked, { type: 'play', playerId: 'b', card: { id: 'circle-20' }, selectedShape: 'cross', timestamp: 2 }).state;
+    expect(blocked.effectActive).toBeNull();
+    expect(blocked.pickTwoChain).toBe(0);
+    expect(blocked.playerHands.c).toHaveLength(1);
+    expect(turnOf(blocked)).toBe('c');
+  });
+
+  it('cross-stacks a Pick Three onto a Pick Two', () => {
+    const state = table(
+      { a: [card('circle', 2), card('star', 7)], b: [card('triangle', 5), card('triangle', 4)], c: [card('cross', 3)] },
+      card('circle', 11),
+      { rules: { defendPick: true, pickThree: true, crossStack: true } }
+    );
+    const picked = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-2' }, timestamp: 1 }).state;
+    const stacked = reduce(picked, { type: 'play', playerId: 'b', card: { id: 'triangle-5' }, timestamp: 2 }).state;
+    expect(reduce(stacked, { type: 'draw', playerId: 'c', timestamp: 3 }).state.playerHands.c).toHaveLength(6);
+  });
+
+  it('rejects house rule values not on offer', () => {
+    const state = table({ a: [card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(() => reduce(state, { type: 'update_rules', playerId: 'a', rules: { handSize: 9 } as unknown as Partial<GameRules> })).toThrow();
+    expect(() => reduce(state, { type: 'update_rules', playerId: 'a', rules: { lastCardPenalty: 5 } as unknown as Partial<GameRules> })).toThrow();
+  });
+});
+
+describe('reduce: last card', () => {
+  const lastCardTable = () => table(
+    { a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4), card('cross', 13)], c: [card('cross', 3), card('square', 3)] },
+    card('circle', 11),
+    { rules: { lastCardPenalty: 2 } }
+  );
+
+  it('catches a player who went down to one card without calling it', () => {
+    const played = reduce(lastCardTable(), { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 }).state;
+    expect(played.uncalledLastCard).toEqual(['a']);
+
+    const { state: next, events } = reduce(played, { type: 'challenge_last_card', playerId: 'c', targetId: 'a' });
+    expect(next.playerHands.a).toHaveLength(3);
+    expect(next.playerHands.c).toHaveLength(2);
+    expect(next.uncalledLastCard).toEqual([]);
+    expect(events).toContainEqual({ type: 'last_card_challenged', playerId: 'a', challengerId: 'c', caught: true, cards: [card('square', 10), card('square', 11)] });
+  });
+
+  it('makes a wrong challenger pick the penalty', () => {
+    const called = reduce(lastCardTable(), { type: 'play', playerId: 'a', card: { id: 'circle-3' }, declareLastCard: true, timestamp: 1 }).state;
+    expect(called.uncalledLastCard ?? []).toEqual([]);
+
+    const { state: next, events } = reduce(called, { type: 'challenge_last_card', playerId: 'b', targetId: 'a' });
+    expect(next.playerHands.a).toHaveLength(1);
+    expect(next.playerHands.b).toHaveLength(4);
+    expect(next.players.find(p => p.id === 'b')?.cardCount).toBe(4);
+    expect(next.lastAction).toBe('B challenged A for nothing! B picks 2');
+    expect(events).toContainEqual(expect.objectContaining({ type: 'last_card_challenged', playerId: 'a', challengerId: 'b', caught: false }));
+  });
+
+  it('only catches a player once, and never lets them challenge themselves', () => {
+    const played = reduce(lastCardTable(), { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 }).state;
+    expect(() => reduce(played, { type: 'challenge_last_card', playerId: 'a', targetId: 'a' })).toThrow("You can't challenge yourself");
+
+    const caught = reduce(played, { type: 'challenge_last_card', playerId: 'b', targetId: 'a' }).state;
+    const again = reduce(caught, { type: 'challenge_last_card', playerId: 'c', targetId: 'a' });
+    expect(again.state.playerHands.a).toHaveLength(3);
+    expect(again.state.playerHands.c).toHaveLength(4);
+  });
+
+  it('is not in play without a penalty', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11));
+    const played = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 }).state;
+    expect(played.uncalledLastCard).toBeUndefined();
+    expect(() => reduce(played, { type: 'challenge_last_card', playerId: 'b', targetId: 'a' })).toThrow('Last card calls are not in play');
+  });
+});
+
+describe('reduce: forfeit', () => {
+  it('returns the leaver\'s hand to the bottom of the market and hands on their turn', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('triangle', 4)], c: [card('cross', 5)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'forfeit', playerId: 'a', timestamp: 5 });
+
+    expect(next.players.map(p => p.id)).toEqual(['b', 'c']);
+    expect(next.playerHands.a).toBeUndefined();
+    expect(next.marketPile.slice(-2).map(c => c.id)).toEqual(['circle-3', 'star-7']);
+    expect(next.deckCount).toBe(7);
+    expect(turnOf(next)).toBe('b');
+    expect(events).toContainEqual({ type: 'player_forfeited', playerId: 'a', returnedCards: 2 });
+  });
+
+  it('keeps the turn on the same player when someone before them leaves', () => {
+    const state = { ...table({ a: [card('circle', 3)], b: [card('triangle', 4)], c: [card('cross', 5)] }, card('circle', 11)), currentPlayerIndex: 2 };
+    expect(turnOf(reduce(state, { type: 'forfeit', playerId: 'a', timestamp: 5 }).state)).toBe('c');
+  });
+
+  it('clears a pick penalty owed by the leaver', () => {
+    const state = {
+      ...table({ a: [card('circle', 3)], b: [card('circle', 2)], c: [card('cross', 5)] }, card('circle', 2)),
+      effectActive: 'pick_two' as const,
+      pickTwoChain: 1,
+      pickEffectInitiator: 'b',
+    };
+    const { state: next } = reduce(state, { type: 'forfeit', playerId: 'a', timestamp: 5 });
+    expect(next.effectActive).toBeNull();
+    expect(next.pickTwoChain).toBe(0);
+    expect(turnOf(next)).toBe('b');
+  });
+
+  it('makes the last player left the winner', () => {
+    const state = table({ a: [card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11));
+    const { state: next, events } = reduce(state, { type: 'forfeit', playerId: 'a', timestamp: 5 });
+
+    expect(next.winner).toBe('b');
+    expect(next.sessionWins).toEqual({ b: 1 });
+    expect(events).toContainEqual({ type: 'game_won', playerId: 'b', scores: { b: 4 }, reason: 'forfeit' });
+  });
+});
+
+describe('reduce: empty market', () => {
+  it('reshuffles the discard pile under the top card into the market', () => {
+    const state = table({ a: [card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11), { market: [] });
+    state.discardPile = [card('circle', 3), card('circle', 4), card('circle', 10), card('circle', 11)];
+
+    const { state: next, events } = reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 });
+    expect(next.discardPile).toEqual([card('circle', 11)]);
+    expect(next.playerHands.a).toHaveLength(2);
+    expect(next.marketPile).toHaveLength(2);
+    expect([...next.playerHands.a, ...next.marketPile].map(c => c.id).sort()).toEqual(['circle-10', 'circle-3', 'circle-4', 'star-7']);
+    expect(events).toContainEqual({ type: 'market_refilled', count: 3 });
+    expect(next.winner).toBeNull();
+
+    // Seeded: the same state always reshuffles the same way
+    expect(reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 }).state).toEqual(next);
+  });
+
+  it('checks up once the market and the discard pile are both used up', () => {
+    const state = table({ a: [card('star', 7), card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11), { market: [card('square', 10)] });
+    const { state: next, events } = reduce(state, { type: 'draw', playerId: 'a', timestamp: 1 });
+
+    expect(next.winner).toBe('b');
+    expect(next.roundResult).toEqual({ reason: 'check_up', scores: { a: 27, b: 4 } });
+    expect(events).toContainEqual({ type: 'game_won', playerId: 'b', scores: { a: 27, b: 4 }, reason: 'check_up' });
+  });
+
+  it('deals a penalty from whatever is left before checking up', () => {
+    const state = table({ a: [card('circle', 2), card('star', 7)], b: [card('triangle', 4)] }, card('circle', 11), { market: [card('square', 10)] });
+    const picked = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-2' }, timestamp: 1 }).state;
+
+    // One card in the market and one under the Pick Two: both are drawn, then nothing is left
+    const next = reduce(picked, { type: 'draw', playerId: 'b', timestamp: 2 }).state;
+    expect(next.playerHands.b.map(c => c.id).sort()).toEqual(['circle-11', 'square-10', 'triangle-4']);
+    expect(next.roundResult?.reason).toBe('check_up');
+    expect(next.winner).toBe('a');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import { matchPlayerIds, nextMatchRound } from '../../supabase/functions/_shared/match';
+import { MatchState } from '../../supabase/functions/_shared/game-types';
+import { card, table } from './table';
+
+const PLAYERS = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }];
+
+// Round `round` of a match to 100 with these totals so far
+function matchAt(round: number, scores: Record<string, number>, eliminated: string[] = []): MatchState {
+  const names = Object.fromEntries(Object.keys(scores).map(id => [id, id.toUpperCase()]));
+  return { target: 100, round, scores, names, eliminated, winner: null };
+}
+
+describe('match scoring', () => {
+  it("adds each loser's hand to their total and knocks out whoever reaches the target", () => {
+    const state = table(
+      { a: [card('circle', 3)], b: [card('star', 7), card('cross', 1)], c: [card('circle', 3, 2), card('square', 4)] },
+      card('circle', 11),
+    );
+    state.match = matchAt(2, { a: 40, b: 90, c: 10 });
+    const { state: next, events } = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 });
+
+    expect(next.winner).toBe('a');
+    expect(next.match).toMatchObject({ scores: { a: 40, b: 105, c: 17 }, eliminated: ['b'], winner: null });
+    expect(next.lastAction).toContain('B out of the match');
+    expect(events).toContainEqual({
+      type: 'match_round_scored', round: 2, totals: { a: 40, b: 105, c: 17 }, knockedOut: ['b'], matchWinner: null,
+    });
+  });
+
+  it('gives the match to the round winner once everyone else is out', () => {
+    const state = table({ a: [card('circle', 3)], c: [card('circle', 20), card('square', 13)] }, card('circle', 11));
+    state.match = matchAt(4, { a: 60, b: 100, c: 80 }, ['b']);
+    const { state: next } = reduce(state, { type: 'play', playerId: 'a', card: { id: 'circle-3' }, timestamp: 1 });
+
+    expect(next.match).toMatchObject({ scores: { a: 60, b: 100, c: 113 }, eliminated: ['b', 'c'], winner: 'a' });
+    expect(next.lastAction).toContain('A wins the match!');
+  });
+
+  it('knocks a player who leaves mid-round out of the match', () => {
+    const state = table({ a: [card('circle', 3), card('star', 7)], b: [card('square', 4)], c: [card('cross', 5)] }, card('circle', 11));
+    state.match = matchAt(1, { a: 0, b: 0, c: 0 });
+    const { state: next } = reduce(state, { type: 'forfeit', playerId: 'b', timestamp: 1 });
+
+    expect(next.match?.eliminated).toEqual(['b']);
+    expect(next.match?.scores.b).toBe(0);
+  });
+});
+
+describe('nextMatchRound', () => {
+  it('carries totals and knockouts into the next round, starting newcomers on zero', () => {
+    const previous = matchAt(2, { a: 40, b: 105, c: 17 }, ['b']);
+    const next = nextMatchRound(previous, 100, [...PLAYERS, { id: 'd', name: 'D' }])!;
+
+    expect(next).toMatchObject({ target: 100, round: 3, scores: { a: 40, b: 105, c: 17, d: 0 }, eliminated: ['b'], winner: null });
+    expect(matchPlayerIds(next, PLAYERS).map(p => p.id)).toEqual(['a', 'c']);
+    // The previous round's record is left as it was
+    expect(previous.round).toBe(2);
+    expect(previous.scores).not.toHaveProperty('d');
+  });
+
+  it('starts over after a finished match, a new target or with too few players left', () => {
+    const won = { ...matchAt(5, { a: 60, b: 100, c: 113 }, ['b', 'c']), winner: 'a' };
+    expect(nextMatchRound(won, 100, PLAYERS)).toMatchObject({ round: 1, scores: { a: 0, b: 0, c: 0 }, eliminated: [] });
+
+    const running = matchAt(2, { a: 40, b: 90, c: 10 });
+    expect(nextMatchRound(running, 150, PLAYERS)).toMatchObject({ target: 150, round: 1, scores: { a: 0, b: 0, c: 0 } });
+    expect(nextMatchRound(matchAt(2, { a: 40, b: 105 }, ['b']), 100, PLAYERS.slice(0, 2))?.round).toBe(1);
+  });
+
+  it('plays single games without a target', () => {
+    expect(nextMatchRound(matchAt(2, { a: 40, b: 90 }), 0, PLAYERS)).toBeUndefined();
+    expect(matchPlayerIds(undefined, PLAYERS)).toEqual(PLAYERS);
+  });
+});
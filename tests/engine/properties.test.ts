@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { reduce, GameAction } from '../../supabase/functions/_shared/game-engine';
+import { createInitialGameState, createSeededRandom, getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { CardShape, GameRules, GameState } from '../../supabase/functions/_shared/game-types';
+
+// Random games over the real reducer: whatever legal move is made, these must hold after every step
+
+const SHAPES: CardShape[] = ['circle', 'triangle', 'cross', 'square', 'star'];
+const RULE_SETS: Partial<GameRules>[] = [
+  {},
+  { pickThree: true, defendPick: true, crossStack: true, whotBlocksPick: true },
+  { starEightSkipsTwo: true, reverseCard: 7, winWithHoldOn: true, handSize: 4 },
+  { lastCardPenalty: 2, handSize: 8 },
+];
+const MAX_STEPS = 600;
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// A move someone at the table could legally make: mostly the mover's, sometimes a call, challenge or walkout
+function randomAction(state: GameState, random: () => number): GameAction {
+  const mover = state.players[state.currentPlayerIndex].id;
+  const hand = state.playerHands[mover];
+  const roll = random();
+
+  if (roll < 0.01 && state.players.length > 2) {
+    return { type: 'forfeit', playerId: pick(state.players, random).id, timestamp: 0 };
+  }
+  if (roll < 0.05 && state.rules.lastCardPenalty > 0) {
+    const challenger = pick(state.players, random).id;
+    const target = pick(state.players.filter(p => p.id !== challenger), random).id;
+    return { type: 'challenge_last_card', playerId: challenger, targetId: target };
+  }
+  if (roll < 0.5 && state.rules.lastCardPenalty > 0 && hand.length === 2 && state.lastCardCalled !== mover) {
+    return { type: 'declare_last_card', playerId: mover };
+  }
+
+  const playable = getPlayableCards(hand, state, mover);
+  if (playable.length > 0 && random() < 0.85) {
+    return { type: 'play', playerId: mover, card: pick(playable, random), selectedShape: pick(SHAPES, random), timestamp: 0 };
+  }
+  return { type: 'draw', playerId: mover, timestamp: 0 };
+}
+
+function checkInvariants(state: GameState, context: string) {
+  // 54 cards, each exactly once, across hands, market and discard pile
+  const ids = [...Object.values(state.playerHands).flat(), ...state.marketPile, ...state.discardPile].map(c => c.id);
+  expect(ids.length, context).toBe(54);
+  expect(new Set(ids).size, context).toBe(54);
+
+  expect(Number.isInteger(state.currentPlayerIndex), context).toBe(true);
+  expect(state.currentPlayerIndex, context).toBeGreaterThanOrEqual(0);
+  expect(state.currentPlayerIndex, context).toBeLessThan(state.players.length);
+  for (const player of state.players) {
+    expect(player.cardCount, `${context}: ${player.id}'s card count`).toBe(state.playerHands[player.id].length);
+  }
+
+  if (state.winner) {
+    expect(state.players.some(p => p.id === state.winner), context).toBe(true);
+    // Only a count (check up) or a walkover hands the round to someone still holding cards
+    if (state.roundResult?.reason === 'cards_out') expect(state.playerHands[state.winner], context).toHaveLength(0);
+  }
+}
+
+function playRandomGame(seed: number, rules: Partial<GameRules>, playerCount: number): { state: GameState; actions: GameAction[] } {
+  const players = Array.from({ length: playerCount }, (_, i) => ({ id: `p${i}`, name: `P${i}` }));
+  const random = createSeededRandom(seed * 7919).next;
+  let state = createInitialGameState('1234', players, rules, seed);
+  const actions: GameAction[] = [];
+  checkInvariants(state, `seed ${seed}, deal`);
+
+  for (let step = 0; step < MAX_STEPS && !state.winner; step++) {
+    const action = randomAction(state, random);
+    state = reduce(state, action).state;
+    actions.push(action);
+    checkInvariants(state, `seed ${seed}, step ${step} (${action.type})`);
+  }
+  return { state, actions };
+}
+
+describe('rules engine properties', () => {
+  it.each(RULE_SETS.map((rules, i) => [i, rules] as const))('holds every invariant through random games under rule set %i', (_, rules) => {
+    let finished = 0;
+    for (let seed = 1; seed <= 30; seed++) {
+      const { state } = playRandomGame(seed, rules, 2 + (seed % 5));
+      if (state.winner) finished++;
+    }
+    expect(finished).toBeGreaterThan(20);
+  });
+
+  it('replays the same game from the same seed and moves', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const { state, actions } = playRandomGame(seed, RULE_SETS[1], 3);
+      let replayed = createInitialGameState('1234', [{ id: 'p0', name: 'P0' }, { id: 'p1', name: 'P1' }, { id: 'p2', name: 'P2' }], RULE_SETS[1], seed);
+      for (const action of actions) replayed = reduce(replayed, action).state;
+      expect({ ...replayed, turnStartTime: 0 }).toEqual({ ...state, turnStartTime: 0 });
+    }
+  });
+});
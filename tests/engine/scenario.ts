@@ -0,0 +1,134 @@
+/**
+ * Scenario DSL for rules tests
+ * Lay out a table in card notation ("circle 3", "star 8", "whot"), then
+ * script the moves: scenario({ hands: { a: [...], b: [...] }, top: 'circle 11' })
+ * .plays('a', 'circle 2').draws('b'). Each step runs through the real reducer;
+ * `rejects` checks a move the engine must refuse without applying it.
+ */
+
+import { reduce, GameAction, GameEvent } from '../../supabase/functions/_shared/game-engine';
+import { Card, CardNumber, CardShape, GameRules, GameState, DEFAULT_RULES } from '../../supabase/functions/_shared/game-types';
+
+export interface ScenarioSetup {
+  hands: Record<string, string[]>; // Seating order; the first player moves first unless `turn` says otherwise
+  top: string;
+  market?: string[]; // Top of the market first (default: five plain cards)
+  discard?: string[]; // Under the top card, oldest first
+  rules?: Partial<GameRules>;
+  turn?: string;
+}
+
+export interface Scenario {
+  state: GameState;
+  events: GameEvent[]; // From the last step
+  turn(): string;
+  hand(playerId: string): string[];
+  plays(playerId: string, card: string, options?: { shape?: CardShape; callLastCard?: boolean }): Scenario;
+  draws(playerId: string): Scenario;
+  autoPlays(playerId: string): Scenario;
+  callsLastCard(playerId: string): Scenario;
+  challenges(playerId: string, targetId: string): Scenario;
+  forfeits(playerId: string): Scenario;
+  // The step must throw (matching `error`); the state is left as it was
+  rejects(step: (s: Scenario) => Scenario, error?: string | RegExp): Scenario;
+}
+
+const DEFAULT_MARKET = ['square 10', 'square 11', 'square 13', 'cross 10', 'cross 11'];
+
+// "circle 3" -> circle 3; "whot" -> a Whot (20)
+export function parseCard(notation: string): Omit<Card, 'id'> {
+  if (notation === 'whot') return { shape: 'circle', number: 20 };
+  const [shape, number] = notation.split(' ');
+  return { shape: shape as CardShape, number: Number(number) as CardNumber };
+}
+
+export function cardName(card: Card): string {
+  return card.number === 20 ? 'whot' : `${card.shape} ${card.number}`;
+}
+
+export function scenario(setup: ScenarioSetup): Scenario {
+  // Ids are the notation, numbered when a card appears more than once (Whots)
+  const seen = new Map<string, number>();
+  const toCard = (notation: string): Card => {
+    const copy = (seen.get(notation) ?? 0) + 1;
+    seen.set(notation, copy);
+    return { id: copy > 1 ? `${notation}#${copy}` : notation, ...parseCard(notation) };
+  };
+
+  const ids = Object.keys(setup.hands);
+  const playerHands = Object.fromEntries(ids.map(id => [id, setup.hands[id].map(toCard)]));
+  const top = toCard(setup.top);
+  const discardPile = [...(setup.discard ?? []).map(toCard), top];
+  const marketPile = (setup.market ?? DEFAULT_MARKET).map(toCard);
+
+  const self: Scenario = {
+    state: {
+      roomCode: '1234',
+      players: ids.map((id, index) => ({ id, name: id.toUpperCase(), cardCount: playerHands[id].length, isHost: index === 0, isReady: false })),
+      currentCard: top,
+      currentPlayerIndex: setup.turn ? ids.indexOf(setup.turn) : 0,
+      direction: 1,
+      selectedShape: null,
+      lastAction: 'Game Started',
+      gameStarted: true,
+      winner: null,
+      deckCount: marketPile.length,
+      pickTwoChain: 0,
+      pickThreeChain: 0,
+      effectActive: null,
+      marketPile,
+      discardPile,
+      playerHands,
+      rules: { ...DEFAULT_RULES, ...setup.rules },
+      rulesLocked: false,
+      totalTurns: 0,
+      seed: 1,
+    },
+    events: [],
+
+    turn: () => self.state.players[self.state.currentPlayerIndex].id,
+    hand: playerId => (self.state.playerHands[playerId] ?? []).map(cardName),
+
+    plays: (playerId, notation, { shape, callLastCard } = {}) => {
+      const card = findCard(self.state, playerId, notation);
+      return apply({ type: 'play', playerId, card: { id: card.id }, selectedShape: shape ?? null, declareLastCard: callLastCard, timestamp: 0 });
+    },
+    draws: playerId => apply({ type: 'draw', playerId, timestamp: 0 }),
+    autoPlays: playerId => apply({ type: 'auto_play', playerId, timestamp: 0 }),
+    callsLastCard: playerId => apply({ type: 'declare_last_card', playerId }),
+    challenges: (playerId, targetId) => apply({ type: 'challenge_last_card', playerId, targetId }),
+    forfeits: playerId => apply({ type: 'forfeit', playerId, timestamp: 0 }),
+
+    rejects: (step, error) => {
+      const before = self.state;
+      let thrown: unknown = null;
+      try {
+        step(self);
+      } catch (e) {
+        thrown = e;
+      }
+      self.state = before;
+      if (!thrown) throw new Error('Expected the move to be rejected');
+      const message = thrown instanceof Error ? thrown.message : String(thrown);
+      if (typeof error === 'string' && !message.includes(error)) throw new Error(`Rejected with "${message}", expected "${error}"`);
+      if (error instanceof RegExp && !error.test(message)) throw new Error(`Rejected with "${message}", expected ${error}`);
+      return self;
+    },
+  };
+
+  function apply(action: GameAction): Scenario {
+    const result = reduce(self.state, action);
+    self.state = result.state;
+    self.events = result.events;
+    return self;
+  }
+
+  return self;
+}
+
+function findCard(state: GameState, playerId: string, notation: string): Card {
+  const { shape, number } = parseCard(notation);
+  const card = (state.playerHands[playerId] ?? []).find(c => c.number === number && (number === 20 || c.shape === shape));
+  if (!card) throw new Error(`${playerId} holds no ${notation}`);
+  return card;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { scenario } from './scenario';
+
+describe('scenarios', () => {
+  it('passes a Pick Two along a defending chain until someone draws', () => {
+    const game = scenario({
+      hands: { a: ['circle 2', 'star 7'], b: ['triangle 2', 'triangle 4'], c: ['cross 3', 'cross 7'] },
+      top: 'circle 11',
+      rules: { defendPick: true },
+    });
+
+    game.plays('a', 'circle 2').plays('b', 'triangle 2');
+    expect(game.turn()).toBe('c');
+    game.rejects(g => g.plays('c', 'cross 3'), 'Must draw cards').draws('c');
+    expect(game.hand('c')).toEqual(['cross 3', 'cross 7', 'square 10', 'square 11', 'square 13', 'cross 10']);
+    expect(game.turn()).toBe('a');
+  });
+
+  it('cross-stacks a 5 on a 2 and lets a Whot block the lot', () => {
+    const game = scenario({
+      hands: { a: ['circle 2', 'star 7'], b: ['square 5', 'square 7'], c: ['whot', 'cross 3'] },
+      top: 'circle 11',
+      rules: { defendPick: true, pickThree: true, crossStack: true, whotBlocksPick: true },
+    });
+
+    game.plays('a', 'circle 2').plays('b', 'square 5');
+    expect(game.state.effectActive).toBe('pick_three');
+    game.plays('c', 'whot', { shape: 'cross' });
+    expect(game.state.effectActive).toBeNull();
+    expect(game.state.pickTwoChain + game.state.pickThreeChain).toBe(0);
+    expect(game.turn()).toBe('a');
+  });
+
+  it('skips two players with a Star 8 under the house rule', () => {
+    const game = scenario({
+      hands: { a: ['star 8', 'star 7'], b: ['star 4'], c: ['star 3'], d: ['star 2'] },
+      top: 'star 1',
+      rules: { starEightSkipsTwo: true },
+    });
+    expect(game.plays('a', 'star 8').turn()).toBe('d');
+  });
+
+  it('turns play around with the reverse card', () => {
+    const game = scenario({
+      hands: { a: ['circle 7', 'star 7'], b: ['circle 4'], c: ['circle 3'] },
+      top: 'circle 11',
+      rules: { reverseCard: 7 },
+    });
+    game.plays('a', 'circle 7');
+    expect(game.state.direction).toBe(-1);
+    expect(game.turn()).toBe('c');
+  });
+
+  it('sends General Market round the table and back to whoever played it', () => {
+    const game = scenario({
+      hands: { a: ['circle 14', 'circle 4'], b: ['star 4'], c: ['cross 3'] },
+      top: 'circle 11',
+    });
+    game.plays('a', 'circle 14').draws('b').draws('c');
+    expect(game.turn()).toBe('a');
+    expect(game.events).toContainEqual({ type: 'market_cleared', initiatorId: 'a' });
+    game.plays('a', 'circle 4');
+    expect(game.state.winner).toBe('a');
+  });
+
+  it("won't let a Hold On be the winning card", () => {
+    const game = scenario({ hands: { a: ['circle 1'], b: ['star 4'] }, top: 'circle 11' });
+    game.plays('a', 'circle 1');
+    expect(game.state.winner).toBeNull();
+    expect(game.turn()).toBe('a');
+    game.draws('a');
+    expect(game.hand('a')).toEqual(['square 10']);
+  });
+
+  it('charges a forgotten last card call to the player, and a wrong challenge to the challenger', () => {
+    const game = scenario({
+      hands: { a: ['circle 3', 'star 7'], b: ['circle 4', 'cross 13'], c: ['circle 5', 'square 3'] },
+      top: 'circle 11',
+      rules: { lastCardPenalty: 1 },
+    });
+
+    game.plays('a', 'circle 3').challenges('c', 'a');
+    expect(game.hand('a')).toEqual(['star 7', 'square 10']);
+
+    game.plays('b', 'circle 4', { callLastCard: true }).challenges('a', 'b');
+    expect(game.hand('b')).toEqual(['cross 13']);
+    expect(game.hand('a')).toEqual(['star 7', 'square 10', 'square 11']);
+  });
+
+  it('hands the win to the last player left', () => {
+    const game = scenario({ hands: { a: ['circle 3', 'star 7'], b: ['star 4'] }, top: 'circle 11' });
+    game.forfeits('b');
+    expect(game.state.winner).toBe('a');
+    expect(game.state.roundResult?.reason).toBe('forfeit');
+    expect(game.state.marketPile.map(c => c.id)).toContain('star 4');
+  });
+});
@@ -0,0 +1,33 @@
+import { Card, CardNumber, CardShape, GameRules, GameState, DEFAULT_RULES } from '../../supabase/functions/_shared/game-types';
+
+export function card(shape: CardShape, number: CardNumber, copy = 1): Card {
+  return { id: `${shape}-${number}${copy > 1 ? `-${copy}` : ''}`, shape, number };
+}
+
+// A table laid out by hand: seats in the order of `hands`, the first player to move
+export function table(hands: Record<string, Card[]>, top: Card, options: { market?: Card[]; rules?: Partial<GameRules> } = {}): GameState {
+  const ids = Object.keys(hands);
+  const market = options.market ?? [card('square', 10), card('square', 11), card('square', 13), card('cross', 10), card('cross', 11)];
+  return {
+    roomCode: '1234',
+    players: ids.map((id, index) => ({ id, name: id.toUpperCase(), cardCount: hands[id].length, isHost: index === 0, isReady: false })),
+    currentCard: top,
+    currentPlayerIndex: 0,
+    direction: 1,
+    selectedShape: null,
+    lastAction: 'Game Started',
+    gameStarted: true,
+    winner: null,
+    deckCount: market.length,
+    pickTwoChain: 0,
+    pickThreeChain: 0,
+    effectActive: null,
+    marketPile: market,
+    discardPile: [top],
+    playerHands: structuredClone(hands),
+    rules: { ...DEFAULT_RULES, ...options.rules },
+    rulesLocked: false,
+    totalTurns: 0,
+    seed: 1,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+// The controller's rules, through the web app's import path
+import { getPlayableCards, createInitialGameState } from '../../src/utils/whot-rules';
+import { GameRules, GameState } from '../../src/types/game';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import { PlayerView, toPlayerView } from '../../supabase/functions/_shared/public-state';
+
+const RULE_SETS: Partial<GameRules>[] = [
+  {},
+  { pickThree: true, defendPick: true },
+  { pickThree: true, defendPick: true, crossStack: true, whotBlocksPick: true },
+  { starEightSkipsTwo: true, reverseCard: 7, winWithHoldOn: true },
+];
+
+const PLAYERS = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }];
+
+// What the phone actually receives: the player's view, through JSON
+function wireView(state: GameState, playerId: string): PlayerView {
+  return JSON.parse(JSON.stringify(toPlayerView(state, playerId)));
+}
+
+function serverAccepts(state: GameState, playerId: string, cardId: string): boolean {
+  try {
+    reduce(state, { type: 'play', playerId, card: { id: cardId }, selectedShape: 'circle', timestamp: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('controller and server rules', () => {
+  // Every card in the mover's hand, every turn of seeded games: the controller greys out
+  // exactly the cards the server would refuse, judging from the view as it arrives on the phone
+  it.each(RULE_SETS.map((rules, i) => [i, rules] as const))('agree on every card under rule set %i', (_, rules) => {
+    let checked = 0;
+    for (let seed = 1; seed <= 15; seed++) {
+      let state = createInitialGameState('1234', PLAYERS, rules, seed);
+      for (let turn = 0; turn < 150 && !state.winner; turn++) {
+        const playerId = state.players[state.currentPlayerIndex].id;
+        const view = wireView(state, playerId);
+        const playable = new Set(getPlayableCards(view.playerHands[playerId], view, playerId).map(c => c.id));
+
+        for (const card of state.playerHands[playerId]) {
+          expect(playable.has(card.id), `seed ${seed}, turn ${turn}, ${card.shape} ${card.number}`).toBe(serverAccepts(state, playerId, card.id));
+          checked++;
+        }
+        state = reduce(state, { type: 'auto_play', playerId, timestamp: turn }).state;
+      }
+    }
+    expect(checked).toBeGreaterThan(500);
+  });
+
+  it('agree that only the called shape follows a Whot', () => {
+    const state = createInitialGameState('1234', PLAYERS.slice(0, 2), {}, 1);
+    state.currentCard = { id: 'whot', shape: 'circle', number: 20 };
+    state.selectedShape = 'star';
+    state.effectActive = null;
+    state.currentPlayerIndex = 0;
+    // The Whot itself is printed as a circle: only the called shape (or another Whot) follows it
+    state.playerHands.a = [{ id: 'star-3', shape: 'star', number: 3 }, { id: 'whot-2', shape: 'circle', number: 20 }, { id: 'circle-3', shape: 'circle', number: 3 }];
+
+    const view = wireView(state, 'a');
+    const playable = getPlayableCards(view.playerHands.a, view, 'a').map(c => c.id);
+    expect(playable).toEqual(['star-3', 'whot-2']);
+    expect(state.playerHands.a.map(c => serverAccepts(state, 'a', c.id))).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import { BUILT_IN_PRESETS, findBuiltInPreset, isPresetActive, presetRules } from '../../src/utils/rule-presets';
+import { DEFAULT_RULES } from '../../src/types/game';
+import { card, table } from '../engine/table';
+
+describe('rule presets', () => {
+  it.each(BUILT_IN_PRESETS)('only use rule values the server accepts ($code)', preset => {
+    const state = table({ a: [card('circle', 3)], b: [card('triangle', 4)] }, card('circle', 11));
+    expect(reduce(state, { type: 'update_rules', playerId: 'a', rules: presetRules(preset) }).state.rules).toEqual(presetRules(preset));
+  });
+
+  it('find built-in presets by code, whatever the case', () => {
+    expect(findBuiltInPreset(' Lagos-Classic ')?.name).toBe('Lagos Classic');
+    expect(findBuiltInPreset('ABC123')).toBeUndefined();
+  });
+
+  it('count as active only when every rule matches', () => {
+    const [classic] = BUILT_IN_PRESETS;
+    expect(isPresetActive(classic, presetRules(classic))).toBe(true);
+    expect(isPresetActive(classic, { ...presetRules(classic), turnTimeLimit: 15 })).toBe(false);
+    expect(isPresetActive(classic, DEFAULT_RULES)).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPlayableCards } from '../../src/utils/whot-rules';
+import { Card, GameState } from '../../src/types/game';
+import type { GameStore } from '../../supabase/functions/_shared/game-store';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import { createSqliteStore } from '../../supabase/functions/_shared/sqlite-store';
+import { startServer, TestServer } from './http';
+
+const PLAYERS = [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }, { id: 'chi', name: 'Chi' }];
+
+// node:sqlite ships with Node 22.5+; older runtimes skip the SQLite run
+const sqlite = await import('node:sqlite').catch(() => null);
+
+let server: TestServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// Seats everyone, deals a seeded game, then has each player fetch the table and their hand
+// and play the first card the controller would allow, or draw, until somebody wins
+async function playFullGame(store: GameStore, seed: number) {
+  server = startServer(store);
+  const { call } = server;
+
+  const created = await call('/room/create');
+  expect(created.status).toBe(200);
+  const { roomCode, hostToken } = created.body as { roomCode: string; hostToken: string };
+
+  const seatTokens: Record<string, string> = {};
+  for (const player of PLAYERS) {
+    const joined = await call('/room/join', { roomCode, playerId: player.id, playerName: player.name });
+    expect(joined.status).toBe(200);
+    seatTokens[player.id] = joined.body.seatToken as string;
+  }
+
+  const started = await call('/game/start', { roomCode, hostToken, players: PLAYERS, seed, actionId: 'start' });
+  expect(started.status).toBe(200);
+
+  let state = started.body.state as GameState;
+  for (let turn = 0; !state.winner; turn++) {
+    expect(turn).toBeLessThan(500);
+    const playerId = state.players[state.currentPlayerIndex].id;
+    const seatToken = seatTokens[playerId];
+
+    const handResponse = await call('/game/get-hand', { roomCode, playerId, seatToken });
+    expect(handResponse.status).toBe(200);
+    const hand = handResponse.body.hand as Card[];
+
+    const [card] = getPlayableCards(hand, { ...state, playerHands: { [playerId]: hand } }, playerId);
+    const moved = card
+      ? await call('/game/play-card', { roomCode, playerId, card, selectedShape: 'circle', actionId: `move-${turn}`, seatToken })
+      : await call('/game/draw', { roomCode, playerId, actionId: `move-${turn}`, seatToken });
+    expect(moved.status, moved.text).toBe(200);
+
+    const read = await call('/game/get-state', { roomCode });
+    expect(read.status).toBe(200);
+    state = read.body.gameState as GameState;
+  }
+
+  return { roomCode, state };
+}
+
+async function expectPlayable(store: GameStore) {
+  const { roomCode, state } = await playFullGame(store, 7);
+  expect(PLAYERS.map(p => p.id)).toContain(state.winner);
+
+  // The finished game replays from the stored action log to the same result
+  const replay = await server!.call('/game/replay', { roomCode });
+  expect(replay.status).toBe(200);
+  const frames = replay.body.frames as { state: GameState }[];
+  expect(frames.at(-1)!.state.winner).toBe(state.winner);
+}
+
+describe('game server over HTTP', () => {
+  it('plays a full game on the in-memory store', async () => {
+    await expectPlayable(createMemoryStore());
+  });
+
+  it.skipIf(!sqlite)('plays a full game on the SQLite store', async () => {
+    await expectPlayable(createSqliteStore(new sqlite!.DatabaseSync(':memory:')));
+  });
+
+  it('plays out the same game again from the same seed', async () => {
+    const first = await playFullGame(createMemoryStore(), 11);
+    await server!.close();
+    const second = await playFullGame(createMemoryStore(), 11);
+    expect(second.state.winner).toBe(first.state.winner);
+    expect(second.state.discardPile).toEqual(first.state.discardPile);
+  });
+
+  it('refuses moves without the seat token', async () => {
+    server = startServer(createMemoryStore());
+    const { roomCode, hostToken } = (await server.call('/room/create')).body as { roomCode: string; hostToken: string };
+    await server.call('/room/join', { roomCode, playerId: 'ada', playerName: 'Ada' });
+    await server.call('/room/join', { roomCode, playerId: 'bayo', playerName: 'Bayo' });
+    await server.call('/game/start', { roomCode, hostToken, players: PLAYERS.slice(0, 2), seed: 1, actionId: 'start' });
+
+    const moved = await server.call('/game/draw', { roomCode, playerId: 'ada', actionId: 'sneaky', seatToken: 'forged' });
+    expect(moved.status).toBe(401);
+  });
+
+  it('lets only the host change the rules', async () => {
+    server = startServer(createMemoryStore());
+    const { roomCode, hostToken } = (await server.call('/room/create')).body as { roomCode: string; hostToken: string };
+    const { seatToken } = (await server.call('/room/join', { roomCode, playerId: 'ada', playerName: 'Ada' })).body;
+    await server.call('/room/join', { roomCode, playerId: 'bayo', playerName: 'Bayo' });
+    await server.call('/game/start', { roomCode, hostToken, players: PLAYERS.slice(0, 2), seed: 1, actionId: 'start' });
+
+    const byPlayer = await server.call('/game/update-rules', { roomCode, playerId: 'ada', seatToken, rules: { pickThree: true }, actionId: 'ada' });
+    expect(byPlayer.status).toBe(401);
+    const byHost = await server.call('/game/update-rules', { roomCode, hostToken, rules: { pickThree: true }, actionId: 'host' });
+    expect(byHost.status).toBe(200);
+    expect(byHost.body.rules).toMatchObject({ pickThree: true });
+  });
+
+  it('takes a last card call sent with the play', async () => {
+    server = startServer(createMemoryStore());
+    const { call } = server;
+    const { roomCode, hostToken } = (await call('/room/create')).body as { roomCode: string; hostToken: string };
+    const seatTokens: Record<string, string> = {};
+    for (const player of PLAYERS.slice(0, 2)) {
+      seatTokens[player.id] = (await call('/room/join', { roomCode, playerId: player.id, playerName: player.name })).body.seatToken as string;
+    }
+    const rules = { lastCardPenalty: 2, turnTimeLimit: 0 };
+    let state = (await call('/game/start', { roomCode, hostToken, players: PLAYERS.slice(0, 2), rules, seed: 7, actionId: 'start' })).body.state as GameState;
+
+    // Play (or draw) until someone can play down to one card
+    for (let turn = 0; ; turn++) {
+      expect(turn).toBeLessThan(500);
+      expect(state.winner).toBeNull();
+      const playerId = state.players[state.currentPlayerIndex].id;
+      const seatToken = seatTokens[playerId];
+      const hand = (await call('/game/get-hand', { roomCode, playerId, seatToken })).body.hand as Card[];
+      const [card] = getPlayableCards(hand, { ...state, playerHands: { [playerId]: hand } }, playerId);
+      const move = { roomCode, playerId, actionId: `move-${turn}`, seatToken };
+
+      if (card && hand.length === 2) {
+        const played = await call('/game/play-card', { ...move, card, selectedShape: 'circle', declareLastCard: true });
+        expect(played.status, played.text).toBe(200);
+
+        // They called it, so a challenge costs the challenger
+        const challenger = PLAYERS.find(p => p.id !== playerId)!.id;
+        const challenged = await call('/game/challenge', {
+          roomCode, playerId: challenger, targetId: playerId, actionId: 'challenge', seatToken: seatTokens[challenger],
+        });
+        expect(challenged.status, challenged.text).toBe(200);
+        expect(challenged.body.caught).toBe(false);
+        return;
+      }
+
+      const moved = card
+        ? await call('/game/play-card', { ...move, card, selectedShape: 'circle' })
+        : await call('/game/draw', move);
+      expect(moved.status, moved.text).toBe(200);
+      state = (await call('/game/get-state', { roomCode })).body.gameState as GameState;
+    }
+  });
+
+  it('refuses seat tokens from an earlier room with the same code', async () => {
+    server = startServer(createMemoryStore());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    const first = (await server.call('/room/create')).body as { roomCode: string; hostToken: string };
+    const { seatToken } = (await server.call('/room/join', { roomCode: first.roomCode, playerId: 'ada', playerName: 'Ada' })).body;
+
+    // The code is free again once the first room has sat idle long enough
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    const second = (await server.call('/room/create')).body as { roomCode: string; hostToken: string };
+    expect(second.roomCode).toBe(first.roomCode);
+    await server.call('/room/join', { roomCode: second.roomCode, playerId: 'bayo', playerName: 'Bayo' });
+
+    const left = await server.call('/room/leave', { roomCode: second.roomCode, playerId: 'ada', seatToken });
+    expect(left.status).toBe(401);
+    const kicked = await server.call('/room/kick', { roomCode: second.roomCode, playerId: 'bayo', hostToken: first.hostToken });
+    expect(kicked.status).toBe(401);
+    const hostKicked = await server.call('/room/kick', { roomCode: second.roomCode, playerId: 'bayo', hostToken: second.hostToken });
+    expect(hostKicked.status).toBe(200);
+  });
+
+  // Room codes are only recycled once a room has been idle, however long ago it was opened
+  async function expectActiveRoomKept(store: GameStore) {
+    server = startServer(store);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const hours = (n: number) => vi.setSystemTime(Date.now() + n * 60 * 60 * 1000);
+
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const first = (await server.call('/room/create')).body as { roomCode: string; hostToken: string };
+    random.mockRestore();
+    const seatTokens: Record<string, string> = {};
+    for (const player of PLAYERS.slice(0, 2)) {
+      seatTokens[player.id] = (await server.call('/room/join', { roomCode: first.roomCode, playerId: player.id, playerName: player.name })).body.seatToken as string;
+    }
+
+    hours(10);
+    const started = await server.call('/game/start', { roomCode: first.roomCode, hostToken: first.hostToken, players: PLAYERS.slice(0, 2), seed: 1, actionId: 'start' });
+    expect(started.status).toBe(200);
+
+    hours(10);
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.5).mockReturnValue(0.25);
+    const second = (await server.call('/room/create')).body as { roomCode: string };
+    expect(second.roomCode).not.toBe(first.roomCode);
+
+    const hand = await server.call('/game/get-hand', { roomCode: first.roomCode, playerId: 'ada', seatToken: seatTokens.ada });
+    expect(hand.status).toBe(200);
+  }
+
+  it('keeps the code of a room still in play on the in-memory store', async () => {
+    await expectActiveRoomKept(createMemoryStore());
+  });
+
+  it.skipIf(!sqlite)('keeps the code of a room still in play on the SQLite store', async () => {
+    await expectActiveRoomKept(createSqliteStore(new sqlite!.DatabaseSync(':memory:')));
+  });
+});
+
+describe('retried moves', () => {
+  // A two-player game with no turn clock, and each player's seat token
+  async function dealtGame(seed: number) {
+    server = startServer(createMemoryStore());
+    const { call } = server;
+    const { roomCode, hostToken } = (await call('/room/create')).body as { roomCode: string; hostToken: string };
+    const seatTokens: Record<string, string> = {};
+    for (const player of PLAYERS.slice(0, 2)) {
+      seatTokens[player.id] = (await call('/room/join', { roomCode, playerId: player.id, playerName: player.name })).body.seatToken as string;
+    }
+    await call('/game/start', { roomCode, hostToken, players: PLAYERS.slice(0, 2), rules: { turnTimeLimit: 0 }, seed, actionId: 'start' });
+
+    const table = async () => (await call('/game/get-state', { roomCode })).body.gameState as GameState;
+    const hand = async (playerId: string) =>
+      (await call('/game/get-hand', { roomCode, playerId, seatToken: seatTokens[playerId] })).body.hand as Card[];
+    return { call, roomCode, seatTokens, table, hand };
+  }
+
+  it('deals a retried draw only once', async () => {
+    const { call, roomCode, seatTokens, table, hand } = await dealtGame(1);
+    const draw = { roomCode, playerId: 'ada', actionId: 'draw-1', seatToken: seatTokens.ada };
+
+    const first = await call('/game/draw', draw);
+    expect(first.status, first.text).toBe(200);
+    const handSize = (await hand('ada')).length;
+    const { deckCount } = await table();
+
+    const retried = await call('/game/draw', draw);
+    expect(retried.body).toEqual(first.body);
+    expect(await hand('ada')).toHaveLength(handSize);
+    expect((await table()).deckCount).toBe(deckCount);
+  });
+
+  it('answers a retried play with the original response', async () => {
+    const { call, roomCode, seatTokens, table, hand } = await dealtGame(1);
+    const state = await table();
+    const [card] = getPlayableCards(await hand('ada'), { ...state, playerHands: { ada: await hand('ada') } }, 'ada');
+    expect(card).toBeDefined();
+    const play = { roomCode, playerId: 'ada', card, selectedShape: 'circle', actionId: 'play-1', seatToken: seatTokens.ada };
+
+    const first = await call('/game/play-card', play);
+    expect(first.status, first.text).toBe(200);
+    const after = await table();
+
+    const retried = await call('/game/play-card', play);
+    expect(retried.status).toBe(200);
+    expect(retried.body).toEqual(first.body);
+    expect((await table()).version).toBe(after.version);
+  });
+
+  it("treats another player's reused actionId as a new move", async () => {
+    const { call, roomCode, seatTokens, hand } = await dealtGame(1);
+    const adaDraw = await call('/game/draw', { roomCode, playerId: 'ada', actionId: 'move-0', seatToken: seatTokens.ada });
+    expect(adaDraw.status, adaDraw.text).toBe(200);
+    const bayoHand = (await hand('bayo')).length;
+
+    const bayoDraw = await call('/game/draw', { roomCode, playerId: 'bayo', actionId: 'move-0', seatToken: seatTokens.bayo });
+    expect(bayoDraw.status, bayoDraw.text).toBe(200);
+    expect(bayoDraw.body.cards).not.toEqual(adaDraw.body.cards);
+    expect(await hand('bayo')).toHaveLength(bayoHand + (bayoDraw.body.cards as Card[]).length);
+  });
+});
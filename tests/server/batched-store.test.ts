@@ -0,0 +1,161 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BatchedGameStore, createBatchedStore } from '../../supabase/functions/_shared/batched-store';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import { rollForward, stampAction, startGame, StartAction } from '../../supabase/functions/_shared/action-log';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import type { GameStore } from '../../supabase/functions/_shared/game-store';
+import type { GameState } from '../../supabase/functions/_shared/game-types';
+
+const ROOM = '4242';
+
+const START: StartAction = {
+  type: 'start',
+  gameId: 'game-1',
+  roomCode: ROOM,
+  players: [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }],
+  rules: {},
+  seed: 42,
+  sessionWins: {},
+  timestamp: 1,
+};
+
+const open: BatchedGameStore[] = [];
+
+// One server instance's view of the shared store
+function instance(store: GameStore): BatchedGameStore {
+  const batched = createBatchedStore(store);
+  open.push(batched);
+  return batched;
+}
+
+// An instance that is recycled before it flushes: its background flush never runs
+function recycledInstance(store: GameStore): BatchedGameStore {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+  return createBatchedStore(store);
+}
+
+afterEach(async () => {
+  await Promise.all(open.splice(0).map(batched => batched.close()));
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+async function deal(batched: BatchedGameStore): Promise<GameState> {
+  const state = startGame(START);
+  state.version = 1;
+  expect(await batched.saveGameState(ROOM, state, 0, { persistNow: true, logEntry: stampAction(state, START) })).toBe(true);
+  return state;
+}
+
+// The current player draws, saved the way the server saves a move
+async function draw(batched: BatchedGameStore): Promise<{ saved: boolean; state: GameState }> {
+  const current = (await batched.getGameState(ROOM))!;
+  const action = { type: 'draw' as const, playerId: current.players[current.currentPlayerIndex].id, timestamp: 2 };
+  const state = reduce(current, action).state;
+  const logEntry = stampAction(state, action);
+  const readVersion = current.version ?? 0;
+  state.version = readVersion + 1;
+  return { saved: await batched.saveGameState(ROOM, state, readVersion, { logEntry }), state };
+}
+
+describe('batched store', () => {
+  it('defers logged moves until a flush', async () => {
+    const store = createMemoryStore();
+    const server = instance(store);
+    await deal(server);
+    await draw(server);
+    const { state } = await draw(server);
+
+    expect((await store.getGameState(ROOM))!.actionSeq).toBe(0);
+    expect(server.metrics().pendingWrites).toBe(1);
+    expect(await server.getGameState(ROOM)).toEqual(state);
+
+    expect((await server.flush()).pendingWrites).toBe(0);
+    expect(await store.getGameState(ROOM)).toEqual(state);
+  });
+
+  it('rebuilds moves a recycled instance never flushed from the action log', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createMemoryStore();
+    const lost = recycledInstance(store);
+    await deal(lost);
+    await draw(lost);
+    const { state: lastBroadcast } = await draw(lost);
+
+    const server = instance(store);
+    const recovered = (await server.getGameState(ROOM))!;
+    expect(recovered.actionSeq).toBe(2);
+    expect(recovered.playerHands).toEqual(lastBroadcast.playerHands);
+    expect(server.metrics().recoveredMoves).toBe(2);
+    // Clients already applied the lost instance's versions and ignore anything older
+    expect(recovered.version).toBeGreaterThan(lastBroadcast.version!);
+
+    // Moves carry on from the rebuilt state, and the store still accepts the flush
+    const { saved, state } = await draw(server);
+    expect(saved).toBe(true);
+    expect(state.version).toBe(recovered.version! + 1);
+    await server.flush();
+    expect(server.metrics().flushConflicts).toBe(0);
+    expect((await store.getGameState(ROOM))!.actionSeq).toBe(3);
+  });
+
+  it("refuses the recycled instance's stale moves once another has moved on", async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createMemoryStore();
+    const stale = instance(store);
+    await deal(stale);
+    await draw(stale);
+
+    const server = instance(store);
+    expect((await draw(server)).saved).toBe(true);
+    expect((await draw(stale)).saved).toBe(false);
+  });
+
+  it('lets only one of two instances save from the same version', async () => {
+    const store = createMemoryStore();
+    await deal(instance(store));
+    const first = instance(store);
+    const second = instance(store);
+
+    // Both read the same version and each makes a move on it
+    const [mine, theirs] = await Promise.all([first.getGameState(ROOM), second.getGameState(ROOM)]);
+    const readVersion = mine!.version!;
+    expect(theirs!.version).toBe(readVersion);
+    const move = (state: GameState) => ({ ...reduce(state, { type: 'draw', playerId: state.players[state.currentPlayerIndex].id, timestamp: 2 }).state, version: readVersion + 1 });
+
+    const saved = move(mine!);
+    expect(await first.saveGameState(ROOM, saved, readVersion, { persistNow: true })).toBe(true);
+    expect(await second.saveGameState(ROOM, move(theirs!), readVersion, { persistNow: true })).toBe(false);
+    expect(await store.getGameState(ROOM)).toEqual(saved);
+  });
+
+  it('rejects a second save from the same cached read', async () => {
+    const server = instance(createMemoryStore());
+    await deal(server);
+    await draw(server);
+
+    const read = (await server.getGameState(ROOM))!;
+    const readVersion = read.version!;
+    expect(await server.saveGameState(ROOM, { ...read, version: readVersion + 1 }, readVersion)).toBe(true);
+    expect(await server.saveGameState(ROOM, { ...read, version: readVersion + 1 }, readVersion)).toBe(false);
+  });
+});
+
+describe('rollForward', () => {
+  it('bumps the version once per rebuilt move and stops at a bad entry', async () => {
+    const store = createMemoryStore();
+    const lost = recycledInstance(store);
+    const saved = await deal(lost);
+    const first = await draw(lost);
+    await draw(lost);
+    const entries = await store.getActions(ROOM, START.gameId, 0);
+
+    expect(rollForward(saved, entries).version).toBe(saved.version! + 2);
+
+    const tampered = [entries[0], { ...entries[1], stateHash: 'deadbeef' }];
+    const partial = rollForward(saved, tampered);
+    expect(partial.actionSeq).toBe(1);
+    expect(partial.version).toBe(first.state.version);
+  });
+});
@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { startGame, StartAction } from '../../supabase/functions/_shared/action-log';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import type { GameStore } from '../../supabase/functions/_shared/game-store';
+import type { GameState } from '../../supabase/functions/_shared/game-types';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import { createSqliteStore } from '../../supabase/functions/_shared/sqlite-store';
+
+const ROOM = '4242';
+
+const START: StartAction = {
+  type: 'start',
+  gameId: 'game-1',
+  roomCode: ROOM,
+  players: [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }],
+  rules: {},
+  seed: 42,
+  sessionWins: {},
+  timestamp: 1,
+};
+
+// node:sqlite ships with Node 22.5+; older runtimes skip the SQLite run
+const sqlite = await import('node:sqlite').catch(() => null);
+
+const STORES: [string, (() => GameStore) | null][] = [
+  ['in-memory', createMemoryStore],
+  ['SQLite', sqlite && (() => createSqliteStore(new sqlite.DatabaseSync(':memory:')))],
+];
+
+// The current player draws on top of `state`, versioned the way the server saves a move
+function drawn(state: GameState): GameState {
+  const next = reduce(state, { type: 'draw', playerId: state.players[state.currentPlayerIndex].id, timestamp: 2 }).state;
+  next.version = (state.version ?? 0) + 1;
+  return next;
+}
+
+describe.each(STORES)('compare-and-swap saves (%s store)', (_, createStore) => {
+  it.skipIf(!createStore)('lets only one of two writers save from the same version', async () => {
+    const store = createStore!();
+    await store.createRoom(ROOM, { players: [], maxPlayers: 4, kickedIds: [] }, 'secret', 60_000);
+    const dealt = { ...startGame(START), version: 1 };
+    expect(await store.saveGameState(ROOM, dealt, 0)).toBe(true);
+
+    const first = (await store.getGameState(ROOM))!;
+    const second = (await store.getGameState(ROOM))!;
+    const winner = drawn(first);
+    expect(await store.saveGameState(ROOM, winner, first.version!)).toBe(true);
+    expect(await store.saveGameState(ROOM, drawn(second), second.version!)).toBe(false);
+
+    expect(await store.getGameState(ROOM)).toEqual(winner);
+  });
+
+  it.skipIf(!createStore)('refuses a first save once the room has a game', async () => {
+    const store = createStore!();
+    await store.createRoom(ROOM, { players: [], maxPlayers: 4, kickedIds: [] }, 'secret', 60_000);
+    expect(await store.saveGameState(ROOM, { ...startGame(START), version: 1 }, 0)).toBe(true);
+    expect(await store.saveGameState(ROOM, { ...startGame({ ...START, seed: 7 }), version: 1 }, 0)).toBe(false);
+    expect((await store.getGameState(ROOM))!.seed).toBe(42);
+  });
+});
@@ -0,0 +1,55 @@
+import { app, closeServer, configureServer } from '../../supabase/functions/whot-server/app';
+import type { GameStore } from '../../supabase/functions/_shared/game-store';
+
+export const ADMIN_SECRET = 'test-admin-secret';
+
+export interface Published {
+  topic: string;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+export interface Response {
+  status: number;
+  text: string;
+  body: Record<string, unknown>;
+}
+
+export interface TestServer {
+  // POST a JSON body to a game server route, as the Supabase client does
+  call(route: string, body?: Record<string, unknown>, headers?: Record<string, string>): Promise<Response>;
+  get(route: string): Promise<Response>;
+  // Every room message sent so far, oldest first
+  published: Published[];
+  close(): Promise<void>;
+}
+
+// The real Hono app on the given store, with room messages captured instead of sent
+export function startServer(store: GameStore): TestServer {
+  const published: Published[] = [];
+  configureServer({
+    store,
+    publish: async (topic, event, payload) => {
+      published.push({ topic, event, payload });
+    },
+    seatTokenSecret: 'test-secret',
+    adminSecret: ADMIN_SECRET,
+  });
+
+  const send = async (route: string, init: RequestInit) => {
+    const response = await app.fetch(new Request(`http://localhost/whot-server${route}`, init));
+    const text = await response.text();
+    return { status: response.status, text, body: JSON.parse(text) };
+  };
+
+  return {
+    call: (route, body = {}, headers = {}) => send(route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    }),
+    get: route => send(route, { method: 'GET' }),
+    published,
+    close: closeServer,
+  };
+}
@@ -0,0 +1,161 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import { startServer, TestServer } from './http';
+
+let server: TestServer;
+let roomCode: string;
+let hostToken: string;
+
+beforeEach(async () => {
+  server = startServer(createMemoryStore());
+  ({ roomCode, hostToken } = (await server.call('/room/create')).body as { roomCode: string; hostToken: string });
+});
+
+afterEach(() => server.close());
+
+const join = (playerId: string, playerName: string, extra: Record<string, unknown> = {}) =>
+  server.call('/room/join', { roomCode, playerId, playerName, ...extra });
+
+const lobbyNames = (body: Record<string, unknown>) =>
+  (body.lobby as { players: { name: string }[] }).players.map(p => p.name);
+
+describe('lobby seats', () => {
+  it('gives a seat token on first join and asks for it to rejoin', async () => {
+    const first = await join('ada', 'Ada');
+    expect(first.status).toBe(200);
+    expect(first.body.seatToken).toEqual(expect.any(String));
+
+    const taken = await join('ada', 'Impostor');
+    expect(taken).toMatchObject({ status: 409, body: { error: 'Seat already claimed' } });
+
+    const back = await join('ada', 'Ada', { seatToken: first.body.seatToken });
+    expect(back.status).toBe(200);
+    expect(back.body).not.toHaveProperty('seatToken');
+    expect(lobbyNames(back.body)).toEqual(['Ada']);
+  });
+
+  it('frees the seat again when the name is taken', async () => {
+    await join('ada', 'Ada');
+    expect(await join('bayo', 'ada')).toMatchObject({ status: 409, body: { error: 'Name already taken' } });
+
+    const retried = await join('bayo', 'Bayo');
+    expect(retried.status).toBe(200);
+    expect(retried.body.seatToken).toEqual(expect.any(String));
+  });
+
+  it('keeps kicked players out, token or not', async () => {
+    const { seatToken } = (await join('ada', 'Ada')).body;
+    expect((await server.call('/room/kick', { roomCode, playerId: 'ada', hostToken })).status).toBe(200);
+
+    expect(await join('ada', 'Ada', { seatToken })).toMatchObject({ status: 403, body: { error: 'You were removed from this room' } });
+  });
+
+  it('lets only the host seat bots', async () => {
+    expect((await join('bot-1', 'Bot', { isBot: true })).status).toBe(401);
+    expect((await join('bot-1', 'Bot', { isBot: true, hostToken, botLevel: 'genius' })).status).toBe(400);
+
+    const seated = await join('bot-1', 'Bot', { isBot: true, hostToken });
+    expect(seated.status).toBe(200);
+    expect(seated.body).not.toHaveProperty('seatToken');
+    expect((seated.body.lobby as { players: unknown[] }).players).toEqual([{ id: 'bot-1', name: 'Bot', isBot: true, botLevel: 'medium' }]);
+  });
+
+  it('turns away newcomers once the game has started', async () => {
+    await join('ada', 'Ada');
+    await join('bayo', 'Bayo');
+    const started = await server.call('/game/start', { roomCode, hostToken, rules: {}, seed: 1, actionId: 'start' });
+    expect(started.status).toBe(200);
+
+    expect(await join('chi', 'Chi')).toMatchObject({ status: 409, body: { error: 'Game already in progress' } });
+  });
+
+  it('refuses a deal the deck or the table cannot hold', async () => {
+    const players = Array.from({ length: 7 }, (_, i) => ({ id: `p${i}`, name: `Player ${i}` }));
+    const dealt = await server.call('/game/start', { roomCode, hostToken, players, rules: { handSize: 7 }, seed: 1, actionId: 'start' });
+    expect(dealt).toMatchObject({ status: 400, body: { error: 'Not enough cards to deal 7 each to 7 players' } });
+
+    const crowded = [...players, { id: 'p7', name: 'Player 7' }, { id: 'p8', name: 'Player 8' }];
+    expect(await server.call('/game/start', { roomCode, hostToken, players: crowded, rules: {}, seed: 1, actionId: 'start' }))
+      .toMatchObject({ status: 400, body: { error: 'At most 8 players can play' } });
+  });
+
+  it('announces the deal once for the whole room, without any cards', async () => {
+    await join('ada', 'Ada');
+    await join('bayo', 'Bayo');
+    await server.call('/game/start', { roomCode, hostToken, rules: {}, seed: 1, actionId: 'start' });
+
+    const deals = server.published.filter(m => m.payload.type === 'deal');
+    expect(deals).toHaveLength(1);
+    expect(deals[0].payload.gameState).toMatchObject({ gameStarted: true, playerHands: {}, marketPile: [] });
+  });
+
+  it('keeps the lobby on the server for the host to reload', async () => {
+    await join('ada', 'Ada');
+    await join('bayo', 'Bayo');
+
+    const reloaded = await server.call('/room/get', { roomCode });
+    expect(reloaded.status).toBe(200);
+    expect(lobbyNames(reloaded.body)).toEqual(['Ada', 'Bayo']);
+  });
+
+  it('lets players leave with their own seat token and come back with it', async () => {
+    const { seatToken } = (await join('ada', 'Ada')).body;
+    await join('bayo', 'Bayo');
+
+    expect((await server.call('/room/leave', { roomCode, playerId: 'ada', seatToken: 'forged' })).status).toBe(401);
+    const left = await server.call('/room/leave', { roomCode, playerId: 'ada', seatToken });
+    expect(left.status).toBe(200);
+    expect(lobbyNames(left.body)).toEqual(['Bayo']);
+
+    expect(lobbyNames((await join('ada', 'Ada', { seatToken })).body)).toEqual(['Bayo', 'Ada']);
+  });
+
+  it('lets only the host remove players', async () => {
+    await join('ada', 'Ada');
+    expect((await server.call('/room/kick', { roomCode, playerId: 'ada', hostToken: 'forged' })).status).toBe(401);
+    expect(lobbyNames((await server.call('/room/get', { roomCode })).body)).toEqual(['Ada']);
+  });
+
+  it('turns players away once the room is full', async () => {
+    for (let i = 0; i < 8; i++) expect((await join(`p${i}`, `Player ${i}`)).status).toBe(200);
+    expect(await join('late', 'Late')).toMatchObject({ status: 409, body: { error: 'Room is full' } });
+  });
+
+  it('tells the room about every lobby change', async () => {
+    const { seatToken } = (await join('ada', 'Ada')).body;
+    await join('bayo', 'Bayo');
+    await server.call('/room/leave', { roomCode, playerId: 'ada', seatToken });
+    await server.call('/room/kick', { roomCode, playerId: 'bayo', hostToken });
+
+    const updates = server.published.filter(m => m.payload.type === 'lobby_update');
+    expect(updates.map(m => m.topic)).toEqual(Array(4).fill(`whot-${roomCode}`));
+    expect(updates.map(m => lobbyNames(m.payload))).toEqual([['Ada'], ['Ada', 'Bayo'], ['Bayo'], []]);
+  });
+
+  it('reports unknown rooms as not found', async () => {
+    expect((await server.call('/room/join', { roomCode: 'NOPE', playerId: 'ada', playerName: 'Ada' })).status).toBe(404);
+  });
+});
+
+describe('rule presets', () => {
+  it('saves rules under a code anyone can load', async () => {
+    const rules = { pickThree: true, turnTimeLimit: 30 };
+    const saved = await server.call('/presets/save', { name: '  Quiet table ', rules });
+    expect(saved.status).toBe(200);
+    const { code } = saved.body.preset as { code: string };
+
+    const loaded = await server.call('/presets/get', { code: ` ${code.toLowerCase()}` });
+    expect(loaded).toMatchObject({ status: 200, body: { preset: { code, name: 'Quiet table', rules } } });
+  });
+
+  it('refuses rules the engine would refuse', async () => {
+    expect((await server.call('/presets/save', { name: 'Odd', rules: { turnTimeLimit: 7 } })).status).toBe(400);
+    expect((await server.call('/presets/save', { name: 'Odd', rules: [] })).status).toBe(400);
+    expect((await server.call('/presets/save', { name: '', rules: {} })).status).toBe(400);
+  });
+
+  it('reports unknown codes as not found', async () => {
+    expect(await server.call('/presets/get', { code: 'ZZZZZZ' })).toMatchObject({ status: 404, body: { error: 'Preset not found' } });
+  });
+});
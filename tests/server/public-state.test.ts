@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyDelta } from '../../supabase/functions/_shared/state-delta';
+import { getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import type { GameStore } from '../../supabase/functions/_shared/game-store';
+import type { Card, GameState, StateDelta } from '../../supabase/functions/_shared/game-types';
+import { app } from '../../supabase/functions/whot-server/app';
+import { ADMIN_SECRET, Response, startServer, TestServer } from './http';
+
+const PRIVATE_FIELDS = ['seed', 'rngState', 'recentActions', 'uncalledLastCard'];
+const PLAYERS = [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }, { id: 'chi', name: 'Chi' }];
+
+// Every game state inside a response or message body, however deeply nested
+function statesIn(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(statesIn);
+  if (value === null || typeof value !== 'object') return [];
+  const record = value as Record<string, unknown>;
+  const nested = Object.values(record).flatMap(statesIn);
+  return 'discardPile' in record ? [record, ...nested] : nested;
+}
+
+// A state as it may leave the server: only `viewer` (if anyone) sees their own hand
+function expectPublic(state: Record<string, unknown>, viewer?: string) {
+  for (const field of PRIVATE_FIELDS) expect(state, field).not.toHaveProperty(field);
+  expect(Object.keys((state.playerHands ?? {}) as object).filter(playerId => playerId !== viewer)).toEqual([]);
+  expect(state.marketPile ?? []).toEqual([]);
+  expect((state.discardPile as unknown[]).length).toBeLessThanOrEqual(1);
+}
+
+// Ids of every card `viewer` may not see: the market and everybody else's hand
+async function hiddenCardIds(server: TestServer, store: GameStore, roomCode: string, viewer?: string): Promise<string[]> {
+  // Batched moves only reach the store when flushed
+  await server.call('/admin/flush', {}, { 'x-admin-secret': ADMIN_SECRET });
+  const state = await store.getGameState(roomCode);
+  if (!state) return [];
+  return [
+    ...state.marketPile,
+    ...Object.entries(state.playerHands).filter(([playerId]) => playerId !== viewer).flatMap(([, hand]) => hand),
+  ].map(card => card.id);
+}
+
+describe('state leaving the server', () => {
+  let server: TestServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('never carries hands, the market, the seed or retry records, on any route or broadcast', async () => {
+    const store = createMemoryStore();
+    const harness = startServer(store);
+    server = harness;
+    const { call, get, published } = harness;
+    let roomCode = '';
+    const routes = new Set<string>();
+
+    // Cards that have been on the table are no secret, even once shuffled back into the market
+    const shown = new Set<string>();
+    const leaked = (hidden: string[], text: string) => hidden.filter(id => !shown.has(id) && text.includes(`"${id}"`));
+    const expectPublicStates = (value: unknown, viewer?: string) => {
+      for (const state of statesIn(value)) {
+        expectPublic(state, viewer);
+        for (const card of state.discardPile as { id: string }[]) shown.add(card.id);
+      }
+    };
+
+    // Checks a response as seen by `viewer`, and every room message sent since the last check
+    let client: GameState | null = null;
+    let seen = 0;
+    const checked = async (route: string, response: Promise<Response>, viewer?: string) => {
+      const { text, body } = await response;
+      routes.add(route);
+      const hidden = await hiddenCardIds(harness, store, roomCode, viewer);
+      expect(leaked(hidden, text), route).toEqual([]);
+      expectPublicStates(body, viewer);
+
+      for (const { payload } of published.slice(seen)) {
+        const everyoneHidden = await hiddenCardIds(harness, store, roomCode);
+        expect(leaked(everyoneHidden, JSON.stringify(payload)), `${route} broadcast`).toEqual([]);
+        expectPublicStates(payload);
+
+        if (payload.gameState) client = payload.gameState as GameState;
+        if (payload.delta) {
+          const delta = payload.delta as StateDelta;
+          for (const op of delta.ops) expect(op.path).not.toMatch(/^\/(playerHands|marketPile|seed|rngState|recentActions|uncalledLastCard)\b/);
+          client = applyDelta(client!, delta);
+          expectPublic(client as unknown as Record<string, unknown>);
+        }
+      }
+      seen = published.length;
+      return body;
+    };
+
+    await checked('/health', get('/health'));
+    const room = await checked('/room/create', call('/room/create'));
+    roomCode = room.roomCode as string;
+    const hostToken = room.hostToken as string;
+    await checked('/room/get', call('/room/get', { roomCode }));
+
+    const seatTokens: Record<string, string> = {};
+    for (const player of [...PLAYERS, { id: 'dayo', name: 'Dayo' }]) {
+      const joined = await checked('/room/join', call('/room/join', { roomCode, playerId: player.id, playerName: player.name }));
+      seatTokens[player.id] = joined.seatToken as string;
+    }
+    await checked('/room/leave', call('/room/leave', { roomCode, playerId: 'dayo', seatToken: seatTokens.dayo }));
+    await checked('/room/join', call('/room/join', { roomCode, playerId: 'eko', playerName: 'Eko' }));
+    await checked('/room/kick', call('/room/kick', { roomCode, playerId: 'eko', hostToken }));
+
+    const rules = { lastCardPenalty: 2, turnTimeLimit: 0 };
+    const preset = await checked('/presets/save', call('/presets/save', { name: 'Quiet table', rules }));
+    await checked('/presets/get', call('/presets/get', { code: preset.code }));
+
+    await checked('/game/start', call('/game/start', { roomCode, hostToken, players: PLAYERS, rules, seed: 3, actionId: 'start' }));
+    await checked('/game/update-rules', call('/game/update-rules', { roomCode, hostToken, rules: { pickThree: true }, actionId: 'rules' }));
+    await checked('/room/presence', call('/room/presence', { roomCode, hostToken, onlinePlayerIds: PLAYERS.map(p => p.id) }));
+    await checked('/game/tick', call('/game/tick', { roomCode }));
+
+    // Bayo and Chi call last card; Ada never does, so there is someone to catch
+    const challenged = new Set<string>();
+    let state = (await checked('/game/get-state', call('/game/get-state', { roomCode }))).gameState as GameState;
+    for (let turn = 0; !state.winner; turn++) {
+      expect(turn).toBeLessThan(500);
+      const playerId = state.players[state.currentPlayerIndex].id;
+      const seatToken = seatTokens[playerId];
+      const move = { roomCode, playerId, actionId: `move-${turn}`, seatToken };
+
+      const target = state.players.find(p => p.id !== playerId && p.cardCount === 1 && !challenged.has(p.id));
+      if (target) {
+        challenged.add(target.id);
+        await checked('/game/challenge', call('/game/challenge', { ...move, targetId: target.id, actionId: `challenge-${turn}` }), playerId);
+      }
+
+      if (turn === 0) {
+        // With no turn timer the server plays the turn at once
+        await checked('/game/auto-play', call('/game/auto-play', move), playerId);
+        state = (await checked('/game/get-state', call('/game/get-state', { roomCode }))).gameState as GameState;
+        continue;
+      }
+
+      const hand = (await checked('/game/get-hand', call('/game/get-hand', { roomCode, playerId, seatToken }), playerId)).hand as Card[];
+      const [card] = getPlayableCards(hand, { ...state, playerHands: { [playerId]: hand } }, playerId);
+
+      if (card && hand.length === 2 && playerId !== 'ada') {
+        await checked('/game/last-card', call('/game/last-card', { ...move, actionId: `last-card-${turn}` }), playerId);
+      }
+      if (card) {
+        const play = { ...move, card, selectedShape: 'circle' };
+        await checked('/game/play-card', call('/game/play-card', play), playerId);
+        // A retry is answered from the saved response, which must not carry the saved state
+        await checked('/game/play-card', call('/game/play-card', play), playerId);
+      } else {
+        await checked('/game/draw', call('/game/draw', move), playerId);
+        await checked('/game/draw', call('/game/draw', move), playerId);
+      }
+
+      state = (await checked('/game/get-state', call('/game/get-state', { roomCode }))).gameState as GameState;
+    }
+
+    await checked('/game/ready', call('/game/ready', { roomCode, playerId: 'ada', actionId: 'ready', seatToken: seatTokens.ada }));
+    await checked('/game/replay', call('/game/replay', { roomCode }));
+    await checked('/admin/flush', call('/admin/flush', {}, { 'x-admin-secret': ADMIN_SECRET }));
+
+    // Every route the server has, so a new one can't slip past this test
+    const served = app.routes.filter(r => r.method === 'GET' || r.method === 'POST').map(r => r.path.replace('/*', ''));
+    expect([...routes].sort()).toEqual(served.sort());
+    expect(challenged.size).toBeGreaterThan(0);
+    expect(published.some(({ payload }) => payload.delta)).toBe(true);
+  });
+});
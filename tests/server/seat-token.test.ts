@@ -0,0 +1,25 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { newRoomSecret, signSeatToken, verifySeatToken } from '../../supabase/functions/_shared/seat-token';
+
+describe('seat tokens', () => {
+  it('only verify for the room and player they were signed for', async () => {
+    const token = await signSeatToken('secret', '1234', 'room', 'ada');
+    expect(await verifySeatToken('secret', '1234', 'room', 'ada', token)).toBe(true);
+    expect(await verifySeatToken('secret', '1234', 'room', 'bayo', token)).toBe(false);
+    expect(await verifySeatToken('secret', '5678', 'room', 'ada', token)).toBe(false);
+    expect(await verifySeatToken('other secret', '1234', 'room', 'ada', token)).toBe(false);
+  });
+
+  it('stop working once the room code goes to a new room', async () => {
+    const earlier = newRoomSecret();
+    const token = await signSeatToken('secret', '1234', earlier, 'ada');
+    expect(await verifySeatToken('secret', '1234', newRoomSecret(), 'ada', token)).toBe(false);
+  });
+
+  it('refuse missing or malformed tokens', async () => {
+    expect(await verifySeatToken('secret', '1234', 'room', 'ada', undefined)).toBe(false);
+    expect(await verifySeatToken('secret', '1234', 'room', 'ada', '')).toBe(false);
+    expect(await verifySeatToken('secret', '1234', 'room', 'ada', { token: 'x' })).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import type { Card, GameRules, GameState } from '../../supabase/functions/_shared/game-types';
+import { startServer, TestServer } from './http';
+
+const PLAYERS = [{ id: 'ada', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }, { id: 'chi', name: 'Chi' }];
+
+let server: TestServer | null = null;
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await server?.close();
+  server = null;
+});
+
+// A dealt game on a fresh server, with everyone's seat token
+async function dealtGame(rules: Partial<GameRules>) {
+  server = startServer(createMemoryStore());
+  const { call } = server;
+  const { roomCode, hostToken } = (await call('/room/create')).body as { roomCode: string; hostToken: string };
+  const seatTokens: Record<string, string> = {};
+  for (const player of PLAYERS) {
+    seatTokens[player.id] = (await call('/room/join', { roomCode, playerId: player.id, playerName: player.name })).body.seatToken as string;
+  }
+  const started = await call('/game/start', { roomCode, hostToken, players: PLAYERS, rules, seed: 4, actionId: 'start' });
+  expect(started.status).toBe(200);
+
+  const readState = async () => (await call('/game/get-state', { roomCode })).body.gameState as GameState;
+  const turnOf = (state: GameState) => state.players[state.currentPlayerIndex].id;
+  return { call, roomCode, hostToken, seatTokens, readState, turnOf };
+}
+
+describe('retried requests', () => {
+  it('answer a repeated play or draw from the saved response instead of moving twice', async () => {
+    const { call, roomCode, seatTokens, readState, turnOf } = await dealtGame({ turnTimeLimit: 0 });
+
+    // Play the first card that fits, or draw, and send the same request again
+    const retried = async (actionId: string) => {
+      const state = await readState();
+      const playerId = turnOf(state);
+      const seatToken = seatTokens[playerId];
+      const hand = (await call('/game/get-hand', { roomCode, playerId, seatToken })).body.hand as Card[];
+      const [card] = getPlayableCards(hand, { ...state, playerHands: { [playerId]: hand } }, playerId);
+      const route = card ? '/game/play-card' : '/game/draw';
+      const body = { roomCode, playerId, seatToken, actionId, ...(card ? { card, selectedShape: 'circle' } : {}) };
+
+      const first = await call(route, body);
+      const again = await call(route, body);
+      expect(first.status, first.text).toBe(200);
+      expect(again.status).toBe(200);
+      expect(again.body).toEqual(first.body);
+      return { route, body, before: state };
+    };
+
+    const { before } = await retried('move-1');
+    expect((await readState()).actionSeq).toBe(before.actionSeq! + 1);
+
+    const { route, body } = await retried('move-2');
+    const afterTwo = await readState();
+    expect(afterTwo.actionSeq).toBe(before.actionSeq! + 2);
+
+    // Still recognised a move later, and a new action id for the same move is judged afresh
+    expect((await call(route, body)).status).toBe(200);
+    expect((await readState()).actionSeq).toBe(afterTwo.actionSeq);
+    expect((await call(route, { ...body, actionId: 'move-2-new' })).status).toBeGreaterThanOrEqual(400);
+  });
+});
+
+describe('server moves', () => {
+  it('play a turn once its time limit runs out', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    const { call, roomCode, readState, turnOf } = await dealtGame({ turnTimeLimit: 15 });
+    const before = await readState();
+
+    // Too early: the server only arms the check
+    await call('/game/tick', { roomCode });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await readState()).toMatchObject({ actionSeq: before.actionSeq, currentPlayerIndex: before.currentPlayerIndex });
+
+    await vi.advanceTimersByTimeAsync(11000);
+    await call('/game/tick', { roomCode });
+    await vi.waitFor(async () => expect((await readState()).actionSeq).toBe(before.actionSeq! + 1));
+    const after = await readState();
+    expect(after.lastAction).toMatch(new RegExp(before.players[before.currentPlayerIndex].name));
+    expect(turnOf(after)).not.toBe(turnOf(before));
+  });
+
+  it('play an expired turn exactly once however many phones tick', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    const { call, roomCode, readState, turnOf } = await dealtGame({});
+    const before = await readState();
+    const late = turnOf(before);
+    const movesBy = (playerId: string) =>
+      server!.published.filter(m => (m.payload.type === 'card_played' || m.payload.type === 'draw') && m.payload.playerId === playerId);
+
+    // Every phone at the table sees the default 60s run out and nudges the server at once
+    await vi.advanceTimersByTimeAsync(61000);
+    const ticks = await Promise.all(PLAYERS.map(() => call('/game/tick', { roomCode })));
+    expect(ticks.map(t => t.status)).toEqual([200, 200, 200]);
+    await vi.waitFor(async () => expect((await readState()).actionSeq).toBe(before.actionSeq! + 1));
+
+    await call('/game/tick', { roomCode });
+    await vi.advanceTimersByTimeAsync(5000);
+    const after = await readState();
+    expect(after.actionSeq).toBe(before.actionSeq! + 1);
+    expect(turnOf(after)).not.toBe(late);
+    expect(movesBy(late)).toHaveLength(1);
+  });
+
+  it('play the turns of a seat that has been offline past the grace period', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    const { call, roomCode, hostToken, readState, turnOf } = await dealtGame({ turnTimeLimit: 0 });
+    const before = await readState();
+    const offline = turnOf(before);
+
+    const reported = await call('/room/presence', { roomCode, hostToken, onlinePlayerIds: PLAYERS.map(p => p.id).filter(id => id !== offline) });
+    expect(Object.keys(reported.body.disconnectedSince as object)).toEqual([offline]);
+
+    // Back within the grace period: nothing is played for them
+    await vi.advanceTimersByTimeAsync(20000);
+    expect((await readState()).actionSeq).toBe(before.actionSeq);
+
+    await vi.advanceTimersByTimeAsync(11000);
+    await vi.waitFor(async () => expect(turnOf(await readState())).not.toBe(offline));
+    expect((await readState()).actionSeq).toBe(before.actionSeq! + 1);
+  });
+
+  it('leave a seat alone once its phone comes back', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    const { call, roomCode, hostToken, readState, turnOf } = await dealtGame({ turnTimeLimit: 0 });
+    const before = await readState();
+    const offline = turnOf(before);
+
+    await call('/room/presence', { roomCode, hostToken, onlinePlayerIds: PLAYERS.map(p => p.id).filter(id => id !== offline) });
+    await vi.advanceTimersByTimeAsync(20000);
+    const back = await call('/room/presence', { roomCode, hostToken, onlinePlayerIds: PLAYERS.map(p => p.id) });
+    expect(back.body.disconnectedSince).toEqual({});
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(await readState()).toMatchObject({ actionSeq: before.actionSeq, currentPlayerIndex: before.currentPlayerIndex });
+  });
+});
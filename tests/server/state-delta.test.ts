@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyDelta, diffState } from '../../supabase/functions/_shared/state-delta';
+import { startGame } from '../../supabase/functions/_shared/action-log';
+import { reduce } from '../../supabase/functions/_shared/game-engine';
+import { getPlayableCards } from '../../supabase/functions/_shared/whot-rules';
+import { createMemoryStore } from '../../supabase/functions/_shared/memory-store';
+import type { GameState, StateDelta } from '../../supabase/functions/_shared/game-types';
+import { startServer, TestServer } from './http';
+
+// What a client ends up holding after a JSON round trip
+const wire = (state: GameState) => JSON.parse(JSON.stringify(state)) as GameState;
+
+describe('diffState and applyDelta', () => {
+  it('rebuild every move of a game', () => {
+    // Player ids may hold the characters JSON Pointer escapes
+    let state = startGame({
+      type: 'start', gameId: 'game-1', roomCode: '4242', rules: {}, seed: 7, sessionWins: {}, timestamp: 1,
+      players: [{ id: 'ada/~1', name: 'Ada' }, { id: 'bayo', name: 'Bayo' }],
+    });
+    state.version = 1;
+
+    for (let turn = 0; !state.winner; turn++) {
+      expect(turn).toBeLessThan(300);
+      const playerId = state.players[state.currentPlayerIndex].id;
+      const [card] = getPlayableCards(state.playerHands[playerId], state, playerId);
+      const next = reduce(state, card
+        ? { type: 'play', playerId, card: { id: card.id }, selectedShape: 'circle', timestamp: turn }
+        : { type: 'draw', playerId, timestamp: turn }).state;
+      next.version = state.version! + 1;
+
+      const delta: StateDelta = { baseVersion: state.version!, version: next.version, ops: diffState(state, next) };
+      expect(applyDelta(state, delta)).toEqual(wire(next));
+      state = next;
+    }
+  });
+
+  it('refuse a delta built on another version', () => {
+    const state = { version: 3 } as GameState;
+    expect(() => applyDelta(state, { baseVersion: 2, version: 4, ops: [] })).toThrow('Delta for version 2 applied to version 3');
+  });
+});
+
+describe('state broadcasts', () => {
+  let server: TestServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("send deltas from the previous version, and a snapshot after another instance's move", async () => {
+    const store = createMemoryStore();
+    server = startServer(store);
+    const { call, published } = server;
+
+    const { roomCode, hostToken } = (await call('/room/create')).body as { roomCode: string; hostToken: string };
+    const seatTokens: Record<string, string> = {};
+    for (const playerId of ['ada', 'bayo']) {
+      seatTokens[playerId] = (await call('/room/join', { roomCode, playerId, playerName: playerId })).body.seatToken as string;
+    }
+    await call('/game/start', { roomCode, hostToken, players: [], seed: 3, actionId: 'start' });
+
+    const drawTurn = async (actionId: string) => {
+      const { gameState } = (await call('/game/get-state', { roomCode })).body as { gameState: GameState };
+      const playerId = gameState.players[gameState.currentPlayerIndex].id;
+      const drawn = await call('/game/draw', { roomCode, playerId, actionId, seatToken: seatTokens[playerId] });
+      expect(drawn.status).toBe(200);
+    };
+
+    await drawTurn('draw-1');
+    await drawTurn('draw-2');
+
+    // Another instance saves a move this one never broadcast
+    const elsewhere = (await store.getGameState(roomCode))!;
+    expect(await store.saveGameState(roomCode, { ...elsewhere, version: elsewhere.version! + 1 }, elsewhere.version!)).toBe(true);
+
+    await drawTurn('draw-3');
+    await drawTurn('draw-4');
+
+    const updates = published.map(message => message.payload).filter(payload => payload.gameState || payload.delta);
+    const deltas = updates.flatMap(payload => (payload.delta ? [payload.delta as StateDelta] : []));
+    expect(deltas.length).toBeGreaterThanOrEqual(2);
+    for (const delta of deltas) expect(delta.baseVersion).toBe(delta.version - 1);
+
+    const afterElsewhere = updates.find(payload => (payload.gameState as GameState | undefined)?.version === elsewhere.version! + 2);
+    expect(afterElsewhere).toBeDefined();
+
+    // A client that saw every broadcast from this instance ends up with the served state
+    let client: GameState | null = null;
+    for (const payload of updates) {
+      if (payload.gameState) client = payload.gameState as GameState;
+      else client = applyDelta(client!, payload.delta as StateDelta);
+    }
+    expect(client).toEqual((await call('/game/get-state', { roomCode })).body.gameState);
+  });
+
+  it('announce the end of a round as a delta on the winning move', async () => {
+    const store = createMemoryStore();
+    server = startServer(store);
+    const { call, published } = server;
+
+    const { roomCode, hostToken } = (await call('/room/create')).body as { roomCode: string; hostToken: string };
+    const seatTokens: Record<string, string> = {};
+    for (const playerId of ['ada', 'bayo']) {
+      seatTokens[playerId] = (await call('/room/join', { roomCode, playerId, playerName: playerId })).body.seatToken as string;
+    }
+    await call('/game/start', { roomCode, hostToken, players: [], seed: 3, actionId: 'start' });
+
+    // Leave the player to move holding one card that fits
+    const dealt = (await store.getGameState(roomCode))!;
+    const playerId = dealt.players[dealt.currentPlayerIndex].id;
+    const lastCard = { id: 'last-card', shape: dealt.currentCard!.shape, number: 13 as const };
+    const players = dealt.players.map(p => (p.id === playerId ? { ...p, cardCount: 1 } : p));
+    const ready = { ...dealt, players, playerHands: { ...dealt.playerHands, [playerId]: [lastCard] }, version: dealt.version! + 1 };
+    expect(await store.saveGameState(roomCode, ready, dealt.version!)).toBe(true);
+
+    const played = await call('/game/play-card', { roomCode, playerId, card: lastCard, actionId: 'win', seatToken: seatTokens[playerId] });
+    expect(played.status, played.text).toBe(200);
+
+    const [move, roundEnd] = published.map(message => message.payload).slice(-2);
+    expect(move.type).toBe('card_played');
+    expect(roundEnd.type).toBe('round_ended');
+    const version = ((move.gameState ?? move.delta) as { version: number }).version;
+    expect(roundEnd.delta).toMatchObject({ baseVersion: version, version });
+    expect(roundEnd).not.toHaveProperty('gameState');
+  });
+});
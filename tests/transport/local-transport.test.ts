@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalTransport } from '../../src/utils/local-transport';
+import type { RoomChannel, RoomChannelHandlers } from '../../src/utils/game-transport';
+import type { GameMessage } from '../../src/types/game';
+
+const transport = createLocalTransport();
+const open: RoomChannel[] = [];
+
+afterEach(() => {
+  open.splice(0).forEach(channel => channel.close());
+});
+
+// A device on the room's channel, recording everything it hears
+function device(roomCode: string) {
+  const heard = { messages: [] as GameMessage[], presence: [] as string[], status: null as string | null };
+  const handlers: RoomChannelHandlers = {
+    onMessage: message => heard.messages.push(message),
+    onPresence: playerIds => { heard.presence = playerIds; },
+    onStatus: status => { heard.status = status; },
+  };
+  const channel = transport.openRoom(roomCode, handlers);
+  open.push(channel);
+  return { channel, heard };
+}
+
+async function post(endpoint: string, body: Record<string, unknown> = {}) {
+  const response = await transport.request(endpoint, body);
+  return { status: response.status, body: await response.json() };
+}
+
+describe('local transport', () => {
+  it('runs the game server in the page', async () => {
+    const created = await post('/room/create');
+    expect(created.status).toBe(200);
+    expect(created.body.roomCode).toEqual(expect.any(String));
+
+    expect((await post('/room/join', { roomCode: 'NOPE', playerId: 'ada', playerName: 'Ada' })).status).toBe(404);
+  });
+
+  it("delivers the server's room messages to every device on the room", async () => {
+    const { roomCode } = (await post('/room/create')).body;
+    const host = device(roomCode);
+    const phone = device(roomCode);
+    await vi.waitFor(() => expect(host.heard.status).toBe('connected'));
+
+    await post('/room/join', { roomCode, playerId: 'ada', playerName: 'Ada' });
+    for (const { heard } of [host, phone]) {
+      await vi.waitFor(() => expect(heard.messages).toContainEqual(expect.objectContaining({ type: 'lobby_update', playerId: 'ada' })));
+    }
+
+    // Messages a device sends reach the others, not itself
+    await phone.channel.send({ type: 'chat_message', playerId: 'ada', message: 'Hi' });
+    await vi.waitFor(() => expect(host.heard.messages).toContainEqual(expect.objectContaining({ type: 'chat_message', message: 'Hi' })));
+    expect(phone.heard.messages).not.toContainEqual(expect.objectContaining({ type: 'chat_message' }));
+  });
+
+  it('shares tracked seats between devices until they untrack or close', async () => {
+    const host = device('PRES');
+    const phone = device('PRES');
+
+    await phone.channel.track('ada');
+    expect(phone.heard.presence).toEqual(['ada']);
+    await vi.waitFor(() => expect(host.heard.presence).toEqual(['ada']));
+
+    await host.channel.track('host');
+    await vi.waitFor(() => expect(phone.heard.presence).toEqual(['ada', 'host']));
+
+    // A device opened later asks the others who is there
+    const late = device('PRES');
+    await vi.waitFor(() => expect(late.heard.presence).toEqual(['ada', 'host']));
+
+    await phone.channel.untrack();
+    await vi.waitFor(() => expect(host.heard.presence).toEqual(['host']));
+
+    open.splice(open.indexOf(host.channel), 1)[0].close();
+    await vi.waitFor(() => expect(late.heard.presence).toEqual([]));
+  });
+});
@@ -9,6 +9,10 @@ export default defineConfig({
     react(),
     tailwindcss(),
   ],
+  // The local-mode game server worker lazy-loads its modules, which needs ES module workers
+  worker: {
+    format: 'es',
+  },
   test: {
     globals: true,
     environment: 'jsdom',